@@ -1,16 +1,33 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { addMonths, startOfDay } from 'date-fns';
 import { ForecastChart } from '@/components/charts/ForecastChart';
 import { MetricCard } from '@/components/ui/MetricCard';
 import { ScenarioSelector } from '@/components/ui/ScenarioSelector';
+import { BacktestPanel } from '@/components/ui/BacktestPanel';
+import { CohortPanel } from '@/components/ui/CohortPanel';
+import { ConcentrationPanel } from '@/components/ui/ConcentrationPanel';
 import {
-  generateForecast,
   compareScenarios,
+  simulateForecastBands,
+  calibrateDemand,
   detectRegime,
+  calibrateRegimes,
   generateMockExecutionHistory,
+  CURRENT_ISSUANCE_CURVE,
+  createScaledIssuanceCurve,
+  createSoftCapIssuanceCurve,
+  createETHPriceMove,
+  attachCohortStake,
+  loadCohortStake,
+  forecastConcentration,
+  type CohortStakeRecord,
+  type CovariatePath,
   type HistoricalDataPoint,
   type ExecutionDataPoint,
+  type IssuanceCurve,
+  type ForecastGranularity,
 } from '@/lib/model/forecast';
 import {
   DriverAttributionChart,
@@ -24,13 +41,51 @@ import {
   toHistoricalDataPoints,
 } from '@/lib/api/rated';
 import { deriveMetrics, type ProtocolState } from '@/lib/model/protocol';
+import { MAINNET_CONFIG } from '@/lib/model/config';
+import { runBacktest, type BacktestReport } from '@/lib/model/backtest';
+import { getCohortStake } from '@/lib/model/cohorts';
+
+// Issuance policies offered in the scenario controls
+const ISSUANCE_CURVES: IssuanceCurve[] = [
+  CURRENT_ISSUANCE_CURVE,
+  createScaledIssuanceCurve(0.7),
+  createSoftCapIssuanceCurve(32_000_000, 48_000_000),
+];
+
+// ETH price views offered in the scenario controls
+const ETH_PRICE_MOVES: { label: string; paths: CovariatePath[] }[] = [
+  { label: 'Flat', paths: [] },
+  { label: '-40% / 3 mo', paths: [createETHPriceMove(-0.4, 90)] },
+  { label: '+50% / 6 mo', paths: [createETHPriceMove(0.5, 180)] },
+];
+
+// The API reports churn in validators; pre-Electra each is one 32 ETH deposit
+const VALIDATOR_BALANCE_ETH = MAINNET_CONFIG.minActivationBalance / 1e9;
+
+// Fewer paths than the model default keep the fan charts responsive
+const FAN_CHART_PATHS = 1000;
+
+// Entity-level paths are costlier than aggregate ones
+const CONCENTRATION_PATHS = 500;
+
+// After the backtest's 30-day training window, ~90 days of history can
+// only realize a one-month horizon
+const BACKTEST_HORIZONS_MONTHS = [1];
 
 export default function Home() {
   const [months, setMonths] = useState(6);
   const [showScenarios, setShowScenarios] = useState(true);
+  const [granularity, setGranularity] = useState<ForecastGranularity>('monthly');
+  const [issuanceCurve, setIssuanceCurve] = useState(CURRENT_ISSUANCE_CURVE.name);
+  const [issuanceActivationMonths, setIssuanceActivationMonths] = useState(0);
+  const [ethPriceMove, setEthPriceMove] = useState(ETH_PRICE_MOVES[0].label);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [usingMockData, setUsingMockData] = useState(false);
+  const [backtestReport, setBacktestReport] = useState<BacktestReport | null>(null);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
+  const [cohortRecords, setCohortRecords] = useState<CohortStakeRecord[]>([]);
+  const [cohortError, setCohortError] = useState<string | null>(null);
 
   // Data state
   const [networkOverview, setNetworkOverview] = useState<{
@@ -81,8 +136,8 @@ export default function Home() {
             activeValidators: 1_078_125,
             totalStakedEth: 34_500_000,
             networkStakingRate: 28.75,
-            avgNetworkApr: 3.23, // Matches our model: 2.89% consensus + 0.34% execution
-            consensusLayerApr: 2.89,
+            avgNetworkApr: 3.17, // Matches our model: 2.83% consensus + 0.34% execution
+            consensusLayerApr: 2.83,
             executionLayerApr: 0.34,
           });
           setQueueStats({
@@ -109,14 +164,19 @@ export default function Home() {
       const mockHistory: HistoricalDataPoint[] = [];
       const now = new Date();
       let currentStake = networkOverview.totalStakedEth;
+      let ethPriceUSD = 3000;
+      let borrowRate = 2.5;
 
       for (let i = 90; i >= 0; i--) {
         const date = new Date(now);
         date.setDate(date.getDate() - i);
 
-        // Simulate gradual growth backwards
+        // Simulate gradual growth backwards, with flows chasing price moves
         const dailyChange = (Math.random() - 0.3) * 50000;
-        currentStake = currentStake - dailyChange;
+        const priceReturn = (Math.random() - 0.5) * 6; // % per day
+        ethPriceUSD *= 1 + priceReturn / 100;
+        borrowRate = Math.max(0.5, borrowRate + (Math.random() - 0.5) * 0.2);
+        currentStake = currentStake - dailyChange + 2000 * priceReturn;
 
         mockHistory.push({
           timestamp: date,
@@ -124,33 +184,158 @@ export default function Home() {
           activeValidators: Math.floor(currentStake / 32),
           entryQueueLength: 5000 + Math.floor(Math.random() * 10000),
           exitQueueLength: 500 + Math.floor(Math.random() * 2000),
+          ethPriceUSD,
+          borrowRate,
+          lstDiscount: Math.random() * 0.3,
         });
       }
 
       setHistoricalData(mockHistory);
 
       // Generate mock execution history
-      const mockExecHistory = generateMockExecutionHistory(90, networkOverview.activeValidators);
+      const mockExecHistory = generateMockExecutionHistory(90, networkOverview.totalStakedEth);
       setExecutionHistory(mockExecHistory);
     }
   }, [networkOverview, historicalData.length]);
 
+  // Staking demand curve the forecasts use
+  const demandModel = useMemo(
+    () => (historicalData.length > 0 ? calibrateDemand(historicalData) : null),
+    [historicalData]
+  );
+
+  // History with any loaded cohort stake attached
+  const forecastHistory = useMemo(
+    () => attachCohortStake(historicalData, cohortRecords),
+    [historicalData, cohortRecords]
+  );
+
+  // Forecasts start from the latest history point
+  const latestState = useMemo(
+    () => forecastHistory.reduce<HistoricalDataPoint | undefined>(
+      (acc, point) => (!acc || point.timestamp > acc.timestamp ? point : acc),
+      undefined
+    ),
+    [forecastHistory]
+  );
+
+  const latestCohortStake = useMemo(
+    () => (latestState ? getCohortStake(latestState) : undefined),
+    [latestState]
+  );
+
+  // Issuance change N months after the forecast origin, not after today
+  const issuancePolicy = useMemo(() => {
+    const curve = ISSUANCE_CURVES.find((c) => c.name === issuanceCurve) ?? CURRENT_ISSUANCE_CURVE;
+    const origin = startOfDay(latestState?.timestamp ?? new Date());
+    return { curve, activationDate: addMonths(origin, issuanceActivationMonths) };
+  }, [latestState, issuanceCurve, issuanceActivationMonths]);
+
   // Generate forecasts
   const forecasts = useMemo(() => {
-    if (historicalData.length === 0) return null;
+    if (forecastHistory.length === 0) return null;
+
+    const covariates = ETH_PRICE_MOVES.find((m) => m.label === ethPriceMove)?.paths ?? [];
 
     try {
-      return compareScenarios(historicalData, months, executionHistory.length > 0 ? executionHistory : undefined);
+      return compareScenarios(
+        forecastHistory,
+        months,
+        executionHistory.length > 0 ? executionHistory : undefined,
+        { baseline: issuancePolicy, bullish: issuancePolicy, bearish: issuancePolicy },
+        covariates,
+        { granularity }
+      );
     } catch (err) {
       console.error('Forecast error:', err);
       return null;
     }
-  }, [historicalData, months, executionHistory]);
+  }, [
+    forecastHistory,
+    months,
+    executionHistory,
+    issuancePolicy,
+    ethPriceMove,
+    granularity,
+  ]);
+
+  // Monte Carlo percentile bands around the baseline for the fan charts
+  const forecastBands = useMemo(() => {
+    if (forecastHistory.length === 0) return null;
+
+    try {
+      return simulateForecastBands(
+        forecastHistory,
+        months,
+        {
+          netFlowBias: 0,
+          mevMultiplier: 1.0,
+          queuePressure: 1.0,
+          feeRegimeBias: 'current',
+          issuance: issuancePolicy,
+          covariates: ETH_PRICE_MOVES.find((m) => m.label === ethPriceMove)?.paths,
+        },
+        executionHistory.length > 0 ? executionHistory : undefined,
+        { paths: FAN_CHART_PATHS, granularity }
+      );
+    } catch (err) {
+      console.error('Forecast simulation error:', err);
+      return null;
+    }
+  }, [
+    forecastHistory,
+    months,
+    executionHistory,
+    issuancePolicy,
+    ethPriceMove,
+    granularity,
+  ]);
+
+  // Entity-labelled stake from a local CSV
+  const handleLoadCohorts = async (file: File) => {
+    try {
+      setCohortRecords(await loadCohortStake(file));
+      setCohortError(null);
+    } catch (err) {
+      setCohortError(err instanceof Error ? err.message : 'Could not read cohort stake');
+    }
+  };
+
+  // Largest-entity share, Nakamoto coefficient and threshold risk along
+  // the baseline
+  const concentration = useMemo(() => {
+    if (!forecasts || cohortRecords.length === 0) return null;
+
+    try {
+      return forecastConcentration(forecastHistory, cohortRecords, forecasts.baseline, {
+        paths: CONCENTRATION_PATHS,
+      });
+    } catch (err) {
+      console.error('Concentration forecast error:', err);
+      return null;
+    }
+  }, [forecasts, forecastHistory, cohortRecords]);
+
+  // Score the baseline forecast from past origins
+  const handleRunBacktest = () => {
+    try {
+      setBacktestReport(
+        runBacktest(historicalData, {
+          horizonsMonths: BACKTEST_HORIZONS_MONTHS,
+          executionHistory,
+        })
+      );
+      setBacktestError(null);
+    } catch (err) {
+      setBacktestError(err instanceof Error ? err.message : 'Backtest failed');
+    }
+  };
 
   // Current fee regime
   const currentRegime = useMemo(() => {
     if (executionHistory.length === 0 || !networkOverview) return null;
-    return detectRegime(executionHistory, networkOverview.activeValidators);
+    const parameters = calibrateRegimes(executionHistory, networkOverview.totalStakedEth);
+    return detectRegime(executionHistory, networkOverview.totalStakedEth, parameters);
   }, [executionHistory, networkOverview]);
 
   // Derive current metrics
@@ -244,7 +429,7 @@ export default function Home() {
             <MetricCard
               title="Active Validators"
               value={(networkOverview?.activeValidators ?? 0).toLocaleString()}
-              subtitle={`Churn: ${queueStats?.churnLimit ?? 0}/epoch`}
+              subtitle={`Churn: ${(currentMetrics?.churn.activation ?? (queueStats?.churnLimit ?? 0) * VALIDATOR_BALANCE_ETH).toFixed(0)} ETH/epoch`}
             />
           </div>
         </section>
@@ -256,6 +441,16 @@ export default function Home() {
             onMonthsChange={setMonths}
             showScenarios={showScenarios}
             onShowScenariosChange={setShowScenarios}
+            granularity={granularity}
+            onGranularityChange={setGranularity}
+            issuanceCurves={ISSUANCE_CURVES.map((c) => c.name)}
+            issuanceCurve={issuanceCurve}
+            onIssuanceCurveChange={setIssuanceCurve}
+            issuanceActivationMonths={issuanceActivationMonths}
+            onIssuanceActivationMonthsChange={setIssuanceActivationMonths}
+            ethPriceMoves={ETH_PRICE_MOVES.map((m) => m.label)}
+            ethPriceMove={ethPriceMove}
+            onEthPriceMoveChange={setEthPriceMove}
           />
         </section>
 
@@ -266,14 +461,129 @@ export default function Home() {
               <h2 className="text-lg font-semibold text-gray-300 mb-4">
                 Stake Ratio Forecast
               </h2>
-              <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-6">
-                <ForecastChart
-                  baseline={forecasts.baseline}
-                  bullish={showScenarios ? forecasts.bullish : undefined}
-                  bearish={showScenarios ? forecasts.bearish : undefined}
-                  metric="stakeRatio"
-                  showConfidence={true}
-                />
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="lg:col-span-2 rounded-xl border border-gray-700 bg-gray-800/50 p-6">
+                  <ForecastChart
+                    baseline={forecasts.baseline}
+                    bullish={showScenarios ? forecasts.bullish : undefined}
+                    bearish={showScenarios ? forecasts.bearish : undefined}
+                    bands={forecastBands ?? undefined}
+                    metric="stakeRatio"
+                    showConfidence={true}
+                    granularity={granularity}
+                  />
+                </div>
+                <ConcentrationPanel forecast={concentration} months={months} />
+              </div>
+            </section>
+
+            {/* Equilibrium */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                Gravity Point
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {([
+                  ['Baseline', forecasts.baseline],
+                  ['Bullish', forecasts.bullish],
+                  ['Bearish', forecasts.bearish],
+                ] as const).map(([label, points]) => {
+                  const equilibrium = points[points.length - 1]?.equilibrium;
+                  if (!equilibrium) return null;
+                  return (
+                    <MetricCard
+                      key={label}
+                      title={`${label} Equilibrium`}
+                      value={`${equilibrium.stakeRatio.toFixed(2)}%`}
+                      subtitle={`${(equilibrium.stakeETH / 1_000_000).toFixed(1)}M ETH at ${equilibrium.totalAPR.toFixed(2)}% APR • ~${equilibrium.daysToReach.toFixed(0)} days of churn away`}
+                    />
+                  );
+                })}
+              </div>
+            </section>
+
+            {/* Demand */}
+            {demandModel && (
+              <section className="mb-8">
+                <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                  Staking Demand
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <MetricCard
+                    title="Demand Elasticity"
+                    value={`${Math.round(demandModel.elasticity).toLocaleString()} ETH/day`}
+                    subtitle={`± ${Math.round(demandModel.elasticityStdErr).toLocaleString()} per pp of APR above the marginal staker's required yield`}
+                  />
+                  <MetricCard
+                    title="Median Reservation Yield"
+                    value={`${(demandModel.referenceRate + demandModel.medianReservationSpread).toFixed(2)}%`}
+                    subtitle={`${demandModel.medianReservationSpread >= 0 ? '+' : ''}${demandModel.medianReservationSpread.toFixed(2)} ± ${demandModel.medianReservationSpreadStdErr.toFixed(2)} pp over the ${demandModel.referenceRate.toFixed(1)}% reference rate • holders spread ±${demandModel.reservationYieldStd.toFixed(1)} pp`}
+                  />
+                  <MetricCard
+                    title="Demand Fit"
+                    value={demandModel.source === 'fitted' ? `R² ${demandModel.r2.toFixed(2)}` : 'Prior'}
+                    subtitle={demandModel.source === 'fitted'
+                      ? `${demandModel.samples} × ${demandModel.windowDays}-day windows • residual ±${Math.round(demandModel.residualStd).toLocaleString()} ETH/day`
+                      : 'History does not identify a response to yield; using the default prior'}
+                  />
+                </div>
+              </section>
+            )}
+
+            {/* Withdrawals */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                Exit Liquidity
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {currentMetrics && (
+                  <>
+                    <MetricCard
+                      title="Full Exit Time"
+                      value={`${currentMetrics.timeToLiquidity.totalDays.toFixed(1)} days`}
+                      subtitle={`Queue ${currentMetrics.timeToLiquidity.exitQueueDays.toFixed(1)}d + delay ${currentMetrics.timeToLiquidity.withdrawabilityDelayDays.toFixed(1)}d + sweep ${currentMetrics.timeToLiquidity.sweepDays.toFixed(1)}d • worst case ${currentMetrics.timeToLiquidity.worstCaseDays.toFixed(1)}d`}
+                    />
+                    <MetricCard
+                      title="Withdrawal Sweep"
+                      value={`${currentMetrics.sweep.cycleDays.toFixed(1)} days`}
+                      subtitle={`${(currentMetrics.sweep.withdrawalsPerDay / 1000).toFixed(0)}k withdrawals/day`}
+                    />
+                  </>
+                )}
+                {forecasts.baseline[forecasts.baseline.length - 1]?.withdrawals && (
+                  <MetricCard
+                    title="Pending Withdrawal"
+                    value={`${Math.round(forecasts.baseline[forecasts.baseline.length - 1].withdrawals.pendingETH).toLocaleString()} ETH`}
+                    subtitle={`Baseline in ${months} months • ${Math.round(forecasts.baseline[forecasts.baseline.length - 1].withdrawals.partialWithdrawalsETH).toLocaleString()} ETH/day skimmed`}
+                  />
+                )}
+              </div>
+            </section>
+
+            {/* Queues */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                Projected Queues
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {([
+                  ['Baseline', forecasts.baseline],
+                  ['Bullish', forecasts.bullish],
+                  ['Bearish', forecasts.bearish],
+                ] as const).map(([label, points]) => {
+                  const peakEntry = Math.max(0, ...points.map((p) => p.pendingDeposits.waitDays));
+                  const peakExit = Math.max(0, ...points.map((p) => p.exitQueue.waitDays));
+                  const last = points[points.length - 1];
+                  if (!last) return null;
+                  return (
+                    <MetricCard
+                      key={label}
+                      title={`${label} Queue Waits`}
+                      value={`${last.pendingDeposits.waitDays.toFixed(1)}d in / ${last.exitQueue.waitDays.toFixed(1)}d out`}
+                      subtitle={`In ${months} months: ${Math.round(last.pendingDeposits.pendingETH).toLocaleString()} ETH entering, ${Math.round(last.exitQueue.pendingETH).toLocaleString()} ETH exiting • peak ${peakEntry.toFixed(1)}d / ${peakExit.toFixed(1)}d`}
+                    />
+                  );
+                })}
               </div>
             </section>
 
@@ -286,8 +596,10 @@ export default function Home() {
                   baseline={forecasts.baseline}
                   bullish={showScenarios ? forecasts.bullish : undefined}
                   bearish={showScenarios ? forecasts.bearish : undefined}
+                  bands={forecastBands ?? undefined}
                   metric="forecastAPR"
-                  showConfidence={false}
+                  showConfidence={true}
+                  granularity={granularity}
                 />
               </div>
             </section>
@@ -298,7 +610,10 @@ export default function Home() {
                 APR Driver Attribution
                 {currentRegime && (
                   <span className="ml-3">
-                    <RegimeBadge regime={currentRegime.currentRegime} />
+                    <RegimeBadge
+                      regime={currentRegime.currentRegime}
+                      probability={currentRegime.regimeConfidence}
+                    />
                   </span>
                 )}
               </h2>
@@ -336,6 +651,31 @@ export default function Home() {
                 )}
               </div>
             </section>
+
+            {/* Cohorts */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                Staker Cohorts
+              </h2>
+              <CohortPanel
+                current={latestCohortStake}
+                forecast={forecasts.baseline}
+                onLoad={handleLoadCohorts}
+                error={cohortError}
+              />
+            </section>
+
+            {/* Backtest */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-300 mb-4">
+                Backtest
+              </h2>
+              <BacktestPanel
+                report={backtestReport}
+                onRun={handleRunBacktest}
+                error={backtestError}
+              />
+            </section>
           </>
         )}
 
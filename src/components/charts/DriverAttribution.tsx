@@ -27,6 +27,15 @@ const COLORS = {
   mev: '#8B5CF6', // Purple
 };
 
+// Consensus components in shades of the consensus blue
+const CONSENSUS_COMPONENTS = [
+  { key: 'source', name: 'Source', color: '#1D4ED8' },
+  { key: 'target', name: 'Target', color: '#2563EB' },
+  { key: 'head', name: 'Head', color: '#3B82F6' },
+  { key: 'syncCommittee', name: 'Sync Committee', color: '#60A5FA' },
+  { key: 'proposer', name: 'Proposer', color: '#93C5FD' },
+] as const;
+
 const REGIME_COLORS = {
   calm: '#10B981',
   elevated: '#F59E0B',
@@ -35,12 +44,12 @@ const REGIME_COLORS = {
 
 export function DriverAttributionChart({ drivers, showPie = false }: DriverAttributionProps) {
   const barData = useMemo(() => [
-    {
-      name: 'Consensus',
-      value: drivers.consensusAPR,
-      pct: drivers.consensusPct,
-      color: COLORS.consensus,
-    },
+    ...CONSENSUS_COMPONENTS.map(({ key, name, color }) => ({
+      name,
+      value: drivers.consensusBreakdown[key],
+      pct: (drivers.consensusBreakdown[key] / drivers.totalAPR) * 100,
+      color,
+    })),
     {
       name: 'Priority Fees',
       value: (drivers.priorityFeesPct / 100) * drivers.totalAPR,
@@ -56,7 +65,11 @@ export function DriverAttributionChart({ drivers, showPie = false }: DriverAttri
   ], [drivers]);
 
   const pieData = useMemo(() => [
-    { name: 'Consensus', value: drivers.consensusPct, color: COLORS.consensus },
+    ...CONSENSUS_COMPONENTS.map(({ key, name, color }) => ({
+      name,
+      value: (drivers.consensusBreakdown[key] / drivers.totalAPR) * 100,
+      color,
+    })),
     { name: 'Priority Fees', value: drivers.priorityFeesPct, color: COLORS.priorityFees },
     { name: 'MEV', value: drivers.mevPct, color: COLORS.mev },
   ], [drivers]);
@@ -97,9 +110,9 @@ export function DriverAttributionChart({ drivers, showPie = false }: DriverAttri
   }
 
   return (
-    <div className="h-48 w-full">
+    <div className="h-72 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={barData} layout="vertical" margin={{ left: 80, right: 20 }}>
+        <BarChart data={barData} layout="vertical" margin={{ left: 100, right: 20 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
           <XAxis
             type="number"
@@ -113,7 +126,7 @@ export function DriverAttributionChart({ drivers, showPie = false }: DriverAttri
             dataKey="name"
             stroke="#9CA3AF"
             fontSize={12}
-            width={75}
+            width={100}
           />
           <Tooltip
             formatter={(value, name, props) => [
@@ -140,9 +153,10 @@ export function DriverAttributionChart({ drivers, showPie = false }: DriverAttri
 
 interface RegimeBadgeProps {
   regime: 'calm' | 'elevated' | 'hot';
+  probability?: number; // Filtered probability of the regime (0-1)
 }
 
-export function RegimeBadge({ regime }: RegimeBadgeProps) {
+export function RegimeBadge({ regime, probability }: RegimeBadgeProps) {
   const color = REGIME_COLORS[regime];
   const label = regime.charAt(0).toUpperCase() + regime.slice(1);
 
@@ -156,6 +170,7 @@ export function RegimeBadge({ regime }: RegimeBadgeProps) {
         style={{ backgroundColor: color }}
       />
       {label} Fee Regime
+      {probability !== undefined && ` (${(probability * 100).toFixed(0)}%)`}
     </span>
   );
 }
@@ -192,6 +207,30 @@ export function DriverSummary({ drivers }: DriverSummaryProps) {
           </span>
         </div>
 
+        {CONSENSUS_COMPONENTS.map(({ key, name, color }) => (
+          <div key={key} className="flex items-center justify-between pl-5 text-xs">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded" style={{ backgroundColor: color }} />
+              <span className="text-gray-500">{name}</span>
+            </div>
+            <span className="text-gray-300">
+              {drivers.consensusBreakdown[key].toFixed(3)}%
+            </span>
+          </div>
+        ))}
+
+        {drivers.penaltyAPR > 0 && (
+          <div className="flex items-center justify-between pl-5 text-xs">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded bg-red-500" />
+              <span className="text-gray-500">Penalties</span>
+            </div>
+            <span className="text-red-400">
+              -{drivers.penaltyAPR.toFixed(3)}%
+            </span>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-sm">
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.priorityFees }} />
@@ -13,50 +13,67 @@ import {
   Area,
   ComposedChart,
 } from 'recharts';
-import type { ForecastPoint } from '@/lib/model/forecast';
+import { format } from 'date-fns';
+import type { ForecastBand, ForecastGranularity, ForecastPoint } from '@/lib/model/forecast';
 
 interface ForecastChartProps {
   baseline: ForecastPoint[];
   bullish?: ForecastPoint[];
   bearish?: ForecastPoint[];
+  bands?: ForecastBand[]; // Simulated percentiles; drawn as a fan around the baseline
   metric: 'stakeRatio' | 'forecastAPR';
   showConfidence?: boolean;
+  granularity?: ForecastGranularity; // Spacing of the points, for axis labels
+}
+
+const DATE_FORMATS: Record<ForecastGranularity, string> = {
+  epoch: 'MMM d HH:mm',
+  daily: 'MMM d',
+  weekly: 'MMM d',
+  monthly: 'MMM yy',
+};
+
+// Above this many points, markers hide the line
+const MAX_DOTTED_POINTS = 60;
+
+function byTime<T extends { date: Date }>(points: T[] | undefined): Map<number, T> {
+  return new Map((points ?? []).map((point) => [new Date(point.date).getTime(), point]));
 }
 
 export function ForecastChart({
   baseline,
   bullish,
   bearish,
+  bands,
   metric,
   showConfidence = true,
+  granularity = 'monthly',
 }: ForecastChartProps) {
+  const showFan = showConfidence && !!bands;
+
   const chartData = useMemo(() => {
-    return baseline.map((point, i) => {
+    // Scenarios and bands can have different event days, so match by date
+    const bullishByTime = byTime(bullish);
+    const bearishByTime = byTime(bearish);
+    const bandsByTime = byTime(bands);
+    const value = (point: ForecastPoint | undefined) =>
+      point && (metric === 'stakeRatio' ? point.stakeRatio : point.forecastAPR);
+
+    return baseline.map((point) => {
       const date = new Date(point.date);
+      const time = date.getTime();
+      const band = bandsByTime.get(time)?.[metric];
       return {
-        date: date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
-        baseline: metric === 'stakeRatio' ? point.stakeRatio : point.forecastAPR,
-        bullish: bullish?.[i]
-          ? metric === 'stakeRatio'
-            ? bullish[i].stakeRatio
-            : bullish[i].forecastAPR
-          : undefined,
-        bearish: bearish?.[i]
-          ? metric === 'stakeRatio'
-            ? bearish[i].stakeRatio
-            : bearish[i].forecastAPR
-          : undefined,
-        confidenceLower:
-          showConfidence && metric === 'stakeRatio'
-            ? (point.confidence.lower / 120_000_000) * 100
-            : undefined,
-        confidenceUpper:
-          showConfidence && metric === 'stakeRatio'
-            ? (point.confidence.upper / 120_000_000) * 100
-            : undefined,
+        date: format(date, DATE_FORMATS[granularity]),
+        baseline: value(point),
+        bullish: value(bullishByTime.get(time)),
+        bearish: value(bearishByTime.get(time)),
+        // Range areas take [low, high] pairs
+        fanOuter: band ? [band.p5, band.p95] : undefined,
+        fanInner: band ? [band.p25, band.p75] : undefined,
       };
     });
-  }, [baseline, bullish, bearish, metric, showConfidence]);
+  }, [baseline, bullish, bearish, bands, metric, granularity]);
 
   const yAxisLabel = metric === 'stakeRatio' ? 'Stake Ratio (%)' : 'APR (%)';
   const domain = metric === 'stakeRatio' ? [20, 40] : [2, 6];
@@ -86,19 +103,34 @@ export function ForecastChart({
               borderRadius: '8px',
             }}
             labelStyle={{ color: '#F9FAFB' }}
-            formatter={(value) => [`${(value as number)?.toFixed(2) ?? 0}%`, '']}
+            formatter={(value) => [
+              Array.isArray(value)
+                ? `${(value[0] as number).toFixed(2)}–${(value[1] as number).toFixed(2)}%`
+                : `${(value as number)?.toFixed(2) ?? 0}%`,
+              '',
+            ]}
           />
           <Legend />
 
-          {showConfidence && metric === 'stakeRatio' && (
-            <Area
-              type="monotone"
-              dataKey="confidenceUpper"
-              stroke="none"
-              fill="#3B82F6"
-              fillOpacity={0.1}
-              name="95% Confidence"
-            />
+          {showFan && (
+            <>
+              <Area
+                type="monotone"
+                dataKey="fanOuter"
+                stroke="none"
+                fill="#3B82F6"
+                fillOpacity={0.12}
+                name="p5–p95"
+              />
+              <Area
+                type="monotone"
+                dataKey="fanInner"
+                stroke="none"
+                fill="#3B82F6"
+                fillOpacity={0.25}
+                name="p25–p75"
+              />
+            </>
           )}
 
           {bearish && (
@@ -118,7 +150,7 @@ export function ForecastChart({
             dataKey="baseline"
             stroke="#3B82F6"
             strokeWidth={3}
-            dot={{ fill: '#3B82F6', strokeWidth: 2 }}
+            dot={chartData.length <= MAX_DOTTED_POINTS ? { fill: '#3B82F6', strokeWidth: 2 } : false}
             name="Baseline"
           />
 
@@ -0,0 +1,93 @@
+'use client';
+
+import { toBacktestReportJSON, type BacktestReport } from '@/lib/model/backtest';
+
+interface BacktestPanelProps {
+  report: BacktestReport | null;
+  onRun: () => void;
+  error?: string | null;
+}
+
+function formatMetric(value: number | undefined, digits: number, suffix = ''): string {
+  return value === undefined || !Number.isFinite(value) ? '–' : `${value.toFixed(digits)}${suffix}`;
+}
+
+export function BacktestPanel({ report, onRun, error }: BacktestPanelProps) {
+  const downloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([toBacktestReportJSON(report)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `backtest-${report.generatedAt.toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-gray-400">
+          {report
+            ? `${report.origins} forecast origins, every ${report.options.originStepDays} days`
+            : 'Rerun the forecast from past dates and score it against what happened'}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={onRun}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-blue-600 text-white hover:bg-blue-500"
+          >
+            {report ? 'Rerun Backtest' : 'Run Backtest'}
+          </button>
+          {report && (
+            <button
+              onClick={downloadReport}
+              className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              Download JSON
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {report && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4 font-medium">Scenario</th>
+                <th className="py-2 pr-4 font-medium">Horizon</th>
+                <th className="py-2 pr-4 font-medium">Samples</th>
+                <th className="py-2 pr-4 font-medium">Stake MAE</th>
+                <th className="py-2 pr-4 font-medium">Stake MAPE</th>
+                <th className="py-2 pr-4 font-medium">Stake Bias</th>
+                <th className="py-2 pr-4 font-medium">p5–p95 Coverage</th>
+                <th className="py-2 pr-4 font-medium">APR MAE</th>
+                <th className="py-2 font-medium">APR Bias</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.scenarios.flatMap(({ scenario, horizons }) =>
+                horizons.map((h) => (
+                  <tr key={`${scenario}-${h.horizonMonths}`} className="border-b border-gray-800 text-gray-300">
+                    <td className="py-2 pr-4 capitalize">{scenario}</td>
+                    <td className="py-2 pr-4">{h.horizonMonths} mo</td>
+                    <td className="py-2 pr-4">{h.samples}</td>
+                    <td className="py-2 pr-4">{formatMetric(h.stakeMAE / 1000, 0, 'k ETH')}</td>
+                    <td className="py-2 pr-4">{formatMetric(h.stakeMAPE, 2, '%')}</td>
+                    <td className="py-2 pr-4">{formatMetric(h.stakeBias / 1000, 0, 'k ETH')}</td>
+                    <td className="py-2 pr-4">{formatMetric(h.stakeCoverage * 100, 0, '%')}</td>
+                    <td className="py-2 pr-4">{formatMetric(h.aprMAE, 2, ' pp')}</td>
+                    <td className="py-2">{formatMetric(h.aprBias, 2, ' pp')}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
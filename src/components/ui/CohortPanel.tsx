@@ -0,0 +1,96 @@
+'use client';
+
+import {
+  COHORT_LABELS,
+  STAKER_COHORTS,
+  type CohortValues,
+} from '@/lib/model/cohorts';
+import type { ForecastPoint } from '@/lib/model/forecast';
+
+interface CohortPanelProps {
+  current?: CohortValues; // Cohort stake on the latest history day
+  forecast: ForecastPoint[]; // Baseline forecast
+  onLoad: (file: File) => void;
+  error?: string | null;
+}
+
+function formatETH(value: number): string {
+  return `${(value / 1e6).toFixed(2)}M`;
+}
+
+export function CohortPanel({ current, forecast, onLoad, error }: CohortPanelProps) {
+  const last = forecast[forecast.length - 1];
+  const cohorts = STAKER_COHORTS.filter((c) => current?.[c] !== undefined && last?.cohorts[c]);
+  const totalNow = cohorts.reduce((sum, c) => sum + (current?.[c] ?? 0), 0);
+  const totalLast = cohorts.reduce((sum, c) => sum + (last?.cohorts[c]?.stakeETH ?? 0), 0);
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-gray-400">
+          {cohorts.length > 0
+            ? 'Each cohort is projected from its own flows through the shared queues'
+            : 'Load a CSV of entity-labelled stake (date, entity, cohort, stakeETH)'}
+        </p>
+        <label className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-blue-600 text-white hover:bg-blue-500 cursor-pointer">
+          Load CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoad(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {cohorts.length > 0 && last && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4 font-medium">Cohort</th>
+                <th className="py-2 pr-4 font-medium">Stake Now</th>
+                <th className="py-2 pr-4 font-medium">Projected</th>
+                <th className="py-2 pr-4 font-medium">Change</th>
+                <th className="py-2 pr-4 font-medium">Share</th>
+                <th className="py-2 font-medium">Queued In / Out</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort) => {
+                const now = current?.[cohort] ?? 0;
+                const step = last.cohorts[cohort];
+                if (!step) return null;
+                const change = step.stakeETH - now;
+                return (
+                  <tr key={cohort} className="border-b border-gray-800 text-gray-300">
+                    <td className="py-2 pr-4">{COHORT_LABELS[cohort]}</td>
+                    <td className="py-2 pr-4">{formatETH(now)}</td>
+                    <td className="py-2 pr-4">{formatETH(step.stakeETH)}</td>
+                    <td className={`py-2 pr-4 ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {change >= 0 ? '+' : ''}{Math.round(change).toLocaleString()} ETH
+                    </td>
+                    <td className="py-2 pr-4">
+                      {totalNow > 0 ? ((now / totalNow) * 100).toFixed(1) : '–'}% →{' '}
+                      {totalLast > 0 ? ((step.stakeETH / totalLast) * 100).toFixed(1) : '–'}%
+                    </td>
+                    <td className="py-2">
+                      {Math.round(step.entryQueueETH).toLocaleString()} /{' '}
+                      {Math.round(step.exitQueueETH).toLocaleString()} ETH
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
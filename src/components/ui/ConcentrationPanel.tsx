@@ -0,0 +1,83 @@
+'use client';
+
+import type { ConcentrationForecast } from '@/lib/model/concentration';
+
+interface ConcentrationPanelProps {
+  forecast: ConcentrationForecast | null;
+  months: number;
+}
+
+function formatCount(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(0) : '–';
+}
+
+function formatProbability(probability: number): string {
+  if (probability === 0) return '0%';
+  if (probability < 0.01) return '<1%';
+  return `${(probability * 100).toFixed(0)}%`;
+}
+
+export function ConcentrationPanel({ forecast, months }: ConcentrationPanelProps) {
+  if (!forecast) {
+    return (
+      <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-6 h-full">
+        <p className="text-sm font-medium text-gray-400">Stake Concentration</p>
+        <p className="mt-4 text-sm text-gray-500">
+          Load entity-labelled stake under Staker Cohorts to forecast the largest entity&apos;s
+          share, the Nakamoto coefficient and consensus threshold risk.
+        </p>
+      </div>
+    );
+  }
+
+  const last = forecast.points[forecast.points.length - 1];
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-6 h-full">
+      <p className="text-sm font-medium text-gray-400">Largest Entity</p>
+      <p className="mt-2 text-3xl font-bold text-white">
+        {forecast.current.largestEntityShare.toFixed(1)}%
+      </p>
+      <p className="mt-1 text-sm text-gray-500">
+        {forecast.current.largestEntity}
+        {last && ` • ${last.largestEntityShare.p50.toFixed(1)}% in ${months} months (p5–p95 ${last.largestEntityShare.p5.toFixed(1)}–${last.largestEntityShare.p95.toFixed(1)}%)`}
+      </p>
+
+      <p className="mt-6 text-sm font-medium text-gray-400">Nakamoto Coefficient</p>
+      <p className="mt-2 text-3xl font-bold text-white">
+        {formatCount(forecast.current.nakamotoCoefficient)}
+      </p>
+      {last && (
+        <p className="mt-1 text-sm text-gray-500">
+          {formatCount(last.nakamotoCoefficient.p50)} in {months} months (p5–p95{' '}
+          {formatCount(last.nakamotoCoefficient.p5)}–{formatCount(last.nakamotoCoefficient.p95)})
+        </p>
+      )}
+
+      <p className="mt-6 text-sm font-medium text-gray-400">
+        Any Entity Crossing Within {months} Months
+      </p>
+      <div className="mt-2 space-y-2">
+        {forecast.thresholdRisks.map((risk) => (
+          <div key={risk.threshold}>
+            <div className="flex justify-between text-sm text-gray-300">
+              <span>{Math.floor(risk.threshold)}% of stake</span>
+              <span>{formatProbability(risk.probability)}</span>
+            </div>
+            <div className="mt-1 h-2 rounded bg-gray-700">
+              <div
+                className="h-2 rounded bg-red-500"
+                style={{ width: `${Math.min(100, risk.probability * 100)}%` }}
+              />
+            </div>
+            {risk.likeliestEntity && (
+              <p className="mt-1 text-xs text-gray-500">
+                Most likely {risk.likeliestEntity} ({formatProbability(risk.likeliestEntityProbability)})
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
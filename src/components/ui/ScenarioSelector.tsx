@@ -1,10 +1,28 @@
 'use client';
 
+import type { ForecastGranularity } from '@/lib/model/forecast';
+
+const GRANULARITIES: { value: ForecastGranularity; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
 interface ScenarioSelectorProps {
   months: number;
   onMonthsChange: (months: number) => void;
   showScenarios: boolean;
   onShowScenariosChange: (show: boolean) => void;
+  granularity: ForecastGranularity;
+  onGranularityChange: (granularity: ForecastGranularity) => void;
+  issuanceCurves: string[];
+  issuanceCurve: string;
+  onIssuanceCurveChange: (curve: string) => void;
+  issuanceActivationMonths: number;
+  onIssuanceActivationMonthsChange: (months: number) => void;
+  ethPriceMoves: string[];
+  ethPriceMove: string;
+  onEthPriceMoveChange: (move: string) => void;
 }
 
 export function ScenarioSelector({
@@ -12,6 +30,16 @@ export function ScenarioSelector({
   onMonthsChange,
   showScenarios,
   onShowScenariosChange,
+  granularity,
+  onGranularityChange,
+  issuanceCurves,
+  issuanceCurve,
+  onIssuanceCurveChange,
+  issuanceActivationMonths,
+  onIssuanceActivationMonthsChange,
+  ethPriceMoves,
+  ethPriceMove,
+  onEthPriceMoveChange,
 }: ScenarioSelectorProps) {
   return (
     <div className="flex flex-wrap items-center gap-4 rounded-xl border border-gray-700 bg-gray-800/50 p-4">
@@ -36,6 +64,27 @@ export function ScenarioSelector({
         </div>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">
+          Granularity
+        </label>
+        <div className="flex gap-2">
+          {GRANULARITIES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onGranularityChange(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                granularity === value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="h-10 w-px bg-gray-700" />
 
       <div>
@@ -53,6 +102,73 @@ export function ScenarioSelector({
           {showScenarios ? 'Hide Scenarios' : 'Show Scenarios'}
         </button>
       </div>
+
+      <div className="h-10 w-px bg-gray-700" />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">
+          Issuance Curve
+        </label>
+        <div className="flex gap-2">
+          {issuanceCurves.map((curve) => (
+            <button
+              key={curve}
+              onClick={() => onIssuanceCurveChange(curve)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                issuanceCurve === curve
+                  ? 'bg-amber-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {curve}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">
+          Activates
+        </label>
+        <div className="flex gap-2">
+          {[0, 3, 6].map((m) => (
+            <button
+              key={m}
+              onClick={() => onIssuanceActivationMonthsChange(m)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                issuanceActivationMonths === m
+                  ? 'bg-amber-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {m === 0 ? 'Now' : `+${m} months`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-10 w-px bg-gray-700" />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">
+          ETH Price
+        </label>
+        <div className="flex gap-2">
+          {ethPriceMoves.map((move) => (
+            <button
+              key={move}
+              onClick={() => onEthPriceMoveChange(move)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                ethPriceMove === move
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {move}
+            </button>
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
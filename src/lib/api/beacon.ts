@@ -5,6 +5,11 @@
  * Uses the standard Beacon API specification
  */
 
+import {
+  type EffectiveBalanceDistribution,
+  getTotalEffectiveBalance,
+} from '../model/balances';
+
 // Default to a public beacon node (can be configured)
 const BEACON_API_BASE = process.env.NEXT_PUBLIC_BEACON_API_URL ||
   'https://beaconcha.in/api/v1';
@@ -116,12 +121,10 @@ export async function getEpochStats(epoch: number | 'latest'): Promise<EpochStat
 
 /**
  * Calculate total staked ETH from beacon state
+ * Uses the effective balance distribution so compounding validators count fully
  */
-export function calculateTotalStaked(
-  activeValidators: number,
-  avgBalance: number = 32
-): number {
-  return activeValidators * avgBalance;
+export function calculateTotalStaked(distribution: EffectiveBalanceDistribution): number {
+  return getTotalEffectiveBalance(distribution);
 }
 
 /**
@@ -133,18 +136,17 @@ export function estimateAPRFromEpochs(
 ): number {
   if (recentEpochs.length < 2) return 0;
 
-  // Calculate average reward per epoch
+  // Calculate average reward per unit of balance per epoch
+  // (per-validator averages break once validators hold more than 32 ETH)
   const rewards: number[] = [];
   for (let i = 1; i < recentEpochs.length; i++) {
     const balanceDiff =
       recentEpochs[i].totalValidatorBalance -
       recentEpochs[i - 1].totalValidatorBalance;
-    rewards.push(balanceDiff / recentEpochs[i].validatorsCount);
+    rewards.push(balanceDiff / recentEpochs[i - 1].totalValidatorBalance);
   }
 
-  const avgRewardPerValidator = rewards.reduce((a, b) => a + b, 0) / rewards.length;
-  const annualReward = avgRewardPerValidator * periodsPerYear;
-  const avgStake = 32; // ETH per validator
+  const avgRewardRate = rewards.reduce((a, b) => a + b, 0) / rewards.length;
 
-  return (annualReward / avgStake) * 100;
+  return avgRewardRate * periodsPerYear * 100;
 }
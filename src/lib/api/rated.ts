@@ -5,6 +5,8 @@
  * API Docs: https://api.rated.network/docs
  */
 
+import { getStakeRatio } from '../model/protocol';
+
 const RATED_API_BASE = 'https://api.rated.network/v0';
 
 export interface NetworkStats {
@@ -165,7 +167,7 @@ function generateMockHistoricalData(days: number): HistoricalNetworkStats[] {
       avgNetworkApr: baseAPR * (0.95 + Math.random() * 0.1), // Add some noise
       totalStakedEth: totalStaked,
       activeValidators,
-      networkPenetration: (totalStaked / 120_000_000) * 100,
+      networkPenetration: getStakeRatio(totalStaked),
       entryQueue: Math.floor(5000 + Math.random() * 10000),
       exitQueue: Math.floor(500 + Math.random() * 2000),
     });
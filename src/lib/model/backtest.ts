@@ -0,0 +1,292 @@
+/**
+ * Rolling-Origin Backtest
+ *
+ * Reruns generateForecast from many past origins using only the history
+ * available at each origin, then scores the forecasts against what was
+ * realized: MAE/MAPE and bias per horizon, and how often realized stake
+ * fell inside the p5–p95 band simulated (simulateForecastBands) from the
+ * same origin.
+ */
+
+import { mean } from 'simple-statistics';
+import { addMonths, startOfDay } from 'date-fns';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import { type ExecutionDataPoint } from './execution';
+import {
+  type HistoricalDataPoint,
+  type ScenarioParams,
+  generateForecast,
+  simulateForecastBands,
+} from './forecast';
+
+/**
+ * Backtest settings
+ */
+export interface BacktestOptions {
+  horizonsMonths?: number[]; // Forecast horizons to score (calendar months)
+  originStepDays?: number; // Days between forecast origins
+  minTrainingDays?: number; // History required before the first origin
+  scenarios?: Record<string, ScenarioParams>; // Scenarios to score (default: baseline)
+  executionHistory?: ExecutionDataPoint[]; // Cut at each origin; default execution model if absent
+  paths?: number; // Monte Carlo paths behind each origin's coverage band
+}
+
+/**
+ * One forecast compared with its realized outcome
+ */
+export interface BacktestSample {
+  scenario: string;
+  origin: Date;
+  horizonMonths: number;
+  target: Date;
+  forecastStakeETH: number;
+  realizedStakeETH: number;
+  stakeLower: number; // Simulated p5
+  stakeUpper: number; // Simulated p95
+  forecastAPR: number;
+  realizedAPR?: number; // Only when the history has observed APR
+}
+
+/**
+ * Error statistics for one scenario and horizon
+ */
+export interface BacktestHorizonMetrics {
+  horizonMonths: number;
+  samples: number;
+  stakeMAE: number; // ETH
+  stakeMAPE: number; // %
+  stakeBias: number; // Mean forecast minus realized (ETH)
+  stakeCoverage: number; // Share of realized stake inside the simulated p5–p95 band (0-1)
+  aprSamples: number;
+  aprMAE?: number; // Percentage points
+  aprMAPE?: number; // %
+  aprBias?: number; // Percentage points
+}
+
+/**
+ * Scores for one scenario
+ */
+export interface BacktestScenarioReport {
+  scenario: string;
+  horizons: BacktestHorizonMetrics[];
+}
+
+/**
+ * Full backtest result
+ */
+export interface BacktestReport {
+  generatedAt: Date;
+  origins: number;
+  options: {
+    horizonsMonths: number[];
+    originStepDays: number;
+    minTrainingDays: number;
+  };
+  scenarios: BacktestScenarioReport[];
+  samples: BacktestSample[];
+}
+
+const DEFAULT_HORIZONS_MONTHS = [1, 3, 6];
+const DEFAULT_ORIGIN_STEP_DAYS = 7;
+const DEFAULT_MIN_TRAINING_DAYS = 30;
+const DEFAULT_BACKTEST_PATHS = 200;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const BASELINE_SCENARIO: ScenarioParams = {
+  netFlowBias: 0,
+  mevMultiplier: 1.0,
+  queuePressure: 1.0,
+  feeRegimeBias: 'current',
+};
+
+/**
+ * Linearly interpolate a history value at a date
+ * Returns undefined outside the history or where the value is missing
+ */
+function interpolateAt(
+  sorted: HistoricalDataPoint[],
+  date: Date,
+  value: (point: HistoricalDataPoint) => number | undefined
+): number | undefined {
+  const time = date.getTime();
+  const after = sorted.findIndex((point) => point.timestamp.getTime() >= time);
+  if (after === -1) return undefined;
+
+  const next = sorted[after];
+  const nextValue = value(next);
+  if (next.timestamp.getTime() === time) return nextValue;
+  if (after === 0) return undefined;
+
+  const prev = sorted[after - 1];
+  const prevValue = value(prev);
+  if (prevValue === undefined || nextValue === undefined) return undefined;
+
+  const weight =
+    (time - prev.timestamp.getTime()) / (next.timestamp.getTime() - prev.timestamp.getTime());
+  return prevValue + (nextValue - prevValue) * weight;
+}
+
+/**
+ * Error statistics for a set of samples at one horizon
+ */
+function getHorizonMetrics(horizonMonths: number, samples: BacktestSample[]): BacktestHorizonMetrics {
+  const stakeErrors = samples.map((s) => s.forecastStakeETH - s.realizedStakeETH);
+  const withAPR = samples.filter((s) => s.realizedAPR !== undefined);
+  const aprErrors = withAPR.map((s) => s.forecastAPR - (s.realizedAPR ?? 0));
+  const aprPercentErrors = withAPR
+    .filter((s) => s.realizedAPR !== 0)
+    .map((s) => Math.abs((s.forecastAPR - (s.realizedAPR ?? 0)) / (s.realizedAPR ?? 1)) * 100);
+
+  if (samples.length === 0) {
+    return {
+      horizonMonths,
+      samples: 0,
+      stakeMAE: NaN,
+      stakeMAPE: NaN,
+      stakeBias: NaN,
+      stakeCoverage: NaN,
+      aprSamples: 0,
+    };
+  }
+
+  return {
+    horizonMonths,
+    samples: samples.length,
+    stakeMAE: mean(stakeErrors.map(Math.abs)),
+    stakeMAPE: mean(samples.map((s, i) => Math.abs(stakeErrors[i] / s.realizedStakeETH) * 100)),
+    stakeBias: mean(stakeErrors),
+    stakeCoverage:
+      samples.filter((s) => s.realizedStakeETH >= s.stakeLower && s.realizedStakeETH <= s.stakeUpper)
+        .length / samples.length,
+    aprSamples: withAPR.length,
+    aprMAE: aprErrors.length > 0 ? mean(aprErrors.map(Math.abs)) : undefined,
+    aprMAPE: aprPercentErrors.length > 0 ? mean(aprPercentErrors) : undefined,
+    aprBias: aprErrors.length > 0 ? mean(aprErrors) : undefined,
+  };
+}
+
+/**
+ * Run a rolling-origin backtest over a history
+ *
+ * Each origin sees only the history (and execution history) up to and
+ * including its own date, so no forecast uses future data.
+ */
+export function runBacktest(
+  history: HistoricalDataPoint[],
+  options: BacktestOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): BacktestReport {
+  const horizonsMonths = options.horizonsMonths ?? DEFAULT_HORIZONS_MONTHS;
+  const originStepDays = options.originStepDays ?? DEFAULT_ORIGIN_STEP_DAYS;
+  const minTrainingDays = options.minTrainingDays ?? DEFAULT_MIN_TRAINING_DAYS;
+  const scenarios = options.scenarios ?? { baseline: BASELINE_SCENARIO };
+
+  if (horizonsMonths.length === 0 || horizonsMonths.some((h) => h <= 0)) {
+    throw new Error('Backtest horizons must be positive');
+  }
+  if (originStepDays <= 0) {
+    throw new Error('Origin step must be positive');
+  }
+
+  const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (sorted.length < 2) {
+    throw new Error('Need at least two history points to backtest');
+  }
+
+  const start = sorted[0].timestamp.getTime();
+  const end = sorted[sorted.length - 1].timestamp.getTime();
+  const minHorizonMonths = Math.min(...horizonsMonths);
+  // Forecasts step from midnight of the origin day, so targets do too
+  const getTarget = (time: number, months: number) => addMonths(startOfDay(time), months);
+
+  // Origins step forward from the end of the training window while an
+  // outcome can still be realized
+  const origins: HistoricalDataPoint[] = [];
+  for (
+    let time = start + minTrainingDays * MS_PER_DAY;
+    getTarget(time, minHorizonMonths).getTime() <= end;
+    time += originStepDays * MS_PER_DAY
+  ) {
+    const origin = [...sorted].reverse().find((point) => point.timestamp.getTime() <= time);
+    if (origin && origins[origins.length - 1] !== origin) origins.push(origin);
+  }
+
+  const samples: BacktestSample[] = [];
+  for (const origin of origins) {
+    const originTime = origin.timestamp.getTime();
+    const training = sorted.filter((point) => point.timestamp.getTime() <= originTime);
+    const execution = (options.executionHistory ?? []).filter(
+      (point) => point.timestamp.getTime() <= originTime
+    );
+    const horizons = horizonsMonths.filter((h) => getTarget(originTime, h).getTime() <= end);
+    if (horizons.length === 0) continue;
+
+    for (const [scenario, params] of Object.entries(scenarios)) {
+      const forecast = generateForecast(
+        training,
+        Math.max(...horizons),
+        params,
+        execution,
+        { granularity: 'daily' },
+        config
+      );
+      const bands = simulateForecastBands(
+        training,
+        Math.max(...horizons),
+        params,
+        execution,
+        { granularity: 'daily', paths: options.paths ?? DEFAULT_BACKTEST_PATHS },
+        config
+      );
+
+      for (const horizonMonths of horizons) {
+        const target = getTarget(originTime, horizonMonths);
+        const point = forecast.find((p) => p.date.getTime() === target.getTime());
+        const band = bands.find((b) => b.date.getTime() === target.getTime());
+        const realizedStakeETH = interpolateAt(sorted, target, (p) => p.totalStakedETH);
+        if (!point || !band || realizedStakeETH === undefined) continue;
+
+        samples.push({
+          scenario,
+          origin: origin.timestamp,
+          horizonMonths,
+          target,
+          forecastStakeETH: point.totalStakedETH,
+          realizedStakeETH,
+          stakeLower: band.totalStakedETH.p5,
+          stakeUpper: band.totalStakedETH.p95,
+          forecastAPR: point.forecastAPR,
+          realizedAPR: interpolateAt(sorted, target, (p) => p.observedAPR),
+        });
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date(),
+    origins: new Set(samples.map((s) => s.origin.getTime())).size,
+    options: { horizonsMonths, originStepDays, minTrainingDays },
+    scenarios: Object.keys(scenarios).map((scenario) => ({
+      scenario,
+      horizons: horizonsMonths.map((h) =>
+        getHorizonMetrics(
+          h,
+          samples.filter((s) => s.scenario === scenario && s.horizonMonths === h)
+        )
+      ),
+    })),
+    samples,
+  };
+}
+
+/**
+ * Serialize a backtest report as JSON for comparing model versions
+ * Dates become ISO strings and metrics without samples become null
+ */
+export function toBacktestReportJSON(report: BacktestReport): string {
+  return JSON.stringify(
+    report,
+    (_, value) => (typeof value === 'number' && !Number.isFinite(value) ? null : value),
+    2
+  );
+}
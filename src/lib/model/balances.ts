@@ -0,0 +1,281 @@
+/**
+ * Effective Balance Distribution Model
+ *
+ * Tracks validators by withdrawal credential type and effective balance.
+ * 0x01 validators are capped at 32 ETH and skim anything above it;
+ * 0x02 (compounding) validators grow up to 2048 ETH, with effective
+ * balance moving in whole-ETH steps subject to hysteresis. Counts may be
+ * fractional once the distribution is projected forward.
+ */
+
+import {
+  HYSTERESIS_QUOTIENT,
+  HYSTERESIS_DOWNWARD_MULTIPLIER,
+  HYSTERESIS_UPWARD_MULTIPLIER,
+} from './constants';
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerYear } from './config';
+
+/**
+ * Withdrawal credential prefix
+ */
+export type WithdrawalCredentialType = '0x01' | '0x02';
+
+/**
+ * Group of validators sharing a credential type and effective balance
+ */
+export interface BalanceBucket {
+  credentials: WithdrawalCredentialType;
+  effectiveBalance: number; // ETH
+  balance: number; // Average actual balance in ETH
+  count: number;
+}
+
+export type EffectiveBalanceDistribution = BalanceBucket[];
+
+// Typical size of a consolidated compounding validator (ETH)
+const DEFAULT_COMPOUNDING_BALANCE = 1024;
+
+/**
+ * Maximum effective balance for a credential type (ETH)
+ */
+export function getMaxEffectiveBalance(
+  credentials: WithdrawalCredentialType,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  return (
+    credentials === '0x02' ? config.maxEffectiveBalanceElectra : config.minActivationBalance
+  ) / 1e9;
+}
+
+/**
+ * Apply the spec's effective balance hysteresis
+ * Effective balance only moves when the balance drifts more than 0.25 ETH
+ * below or 1.25 ETH above it, and then snaps down to a whole increment
+ */
+export function applyHysteresis(
+  balance: number,
+  effectiveBalance: number,
+  credentials: WithdrawalCredentialType,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const incrementETH = config.effectiveBalanceIncrement / 1e9;
+  const hysteresisIncrement = incrementETH / HYSTERESIS_QUOTIENT;
+  const downwardThreshold = hysteresisIncrement * HYSTERESIS_DOWNWARD_MULTIPLIER;
+  const upwardThreshold = hysteresisIncrement * HYSTERESIS_UPWARD_MULTIPLIER;
+
+  if (
+    balance + downwardThreshold < effectiveBalance ||
+    effectiveBalance + upwardThreshold < balance
+  ) {
+    return Math.min(
+      balance - (balance % incrementETH),
+      getMaxEffectiveBalance(credentials, config)
+    );
+  }
+  return effectiveBalance;
+}
+
+/**
+ * Total number of validators in the distribution
+ */
+export function getValidatorCount(distribution: EffectiveBalanceDistribution): number {
+  return distribution.reduce((sum, bucket) => sum + bucket.count, 0);
+}
+
+/**
+ * Total effective balance in ETH
+ */
+export function getTotalEffectiveBalance(distribution: EffectiveBalanceDistribution): number {
+  return distribution.reduce((sum, bucket) => sum + bucket.count * bucket.effectiveBalance, 0);
+}
+
+/**
+ * Average effective balance per validator in ETH
+ */
+export function getAverageEffectiveBalance(distribution: EffectiveBalanceDistribution): number {
+  const count = getValidatorCount(distribution);
+  return count > 0 ? getTotalEffectiveBalance(distribution) / count : 0;
+}
+
+/**
+ * Share of effective balance held by compounding validators (0-1)
+ */
+export function getCompoundingShare(distribution: EffectiveBalanceDistribution): number {
+  const total = getTotalEffectiveBalance(distribution);
+  if (total <= 0) return 0;
+  const compounding = distribution
+    .filter((bucket) => bucket.credentials === '0x02')
+    .reduce((sum, bucket) => sum + bucket.count * bucket.effectiveBalance, 0);
+  return compounding / total;
+}
+
+/**
+ * Expected block proposals per year for a validator
+ * Electra proposer selection is weighted by effective balance
+ */
+export function getProposalsPerYear(
+  effectiveBalance: number,
+  totalEffectiveBalance: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  if (totalEffectiveBalance <= 0) return 0;
+  const slotsPerYear = getEpochsPerYear(config) * config.slotsPerEpoch;
+  return (slotsPerYear * effectiveBalance) / totalEffectiveBalance;
+}
+
+/**
+ * Estimate a distribution from validator count and total stake
+ * Any stake above 32 ETH per validator is attributed to compounding
+ * validators of a typical consolidated size
+ */
+export function estimateBalanceDistribution(
+  activeValidators: number,
+  totalStakedETH: number,
+  compoundingBalance: number = DEFAULT_COMPOUNDING_BALANCE,
+  config: ChainConfig = MAINNET_CONFIG
+): EffectiveBalanceDistribution {
+  const baseBalance = config.minActivationBalance / 1e9;
+  const excessETH = Math.max(0, totalStakedETH - activeValidators * baseBalance);
+  const compoundingCount = Math.min(
+    activeValidators,
+    excessETH / (compoundingBalance - baseBalance)
+  );
+  const legacyCount = Math.max(0, (totalStakedETH - compoundingCount * compoundingBalance) / baseBalance);
+
+  const distribution: EffectiveBalanceDistribution = [
+    { credentials: '0x01', effectiveBalance: baseBalance, balance: baseBalance, count: legacyCount },
+  ];
+  if (compoundingCount > 0) {
+    distribution.push({
+      credentials: '0x02',
+      effectiveBalance: compoundingBalance,
+      balance: compoundingBalance,
+      count: compoundingCount,
+    });
+  }
+  return distribution;
+}
+
+/**
+ * Add newly activated stake
+ * The compounding share of deposits joins as typical-size 0x02 validators
+ */
+export function addStake(
+  distribution: EffectiveBalanceDistribution,
+  stakeETH: number,
+  compoundingShare: number = getCompoundingShare(distribution),
+  config: ChainConfig = MAINNET_CONFIG
+): EffectiveBalanceDistribution {
+  if (stakeETH <= 0) return distribution;
+
+  const baseBalance = config.minActivationBalance / 1e9;
+  const next = distribution.map((bucket) => ({ ...bucket }));
+  const addToBucket = (credentials: WithdrawalCredentialType, balance: number, eth: number) => {
+    if (eth <= 0) return;
+    const bucket = next.find(
+      (b) => b.credentials === credentials && b.effectiveBalance === balance
+    );
+    if (bucket) {
+      bucket.count += eth / balance;
+    } else {
+      next.push({ credentials, effectiveBalance: balance, balance, count: eth / balance });
+    }
+  };
+
+  addToBucket('0x01', baseBalance, stakeETH * (1 - compoundingShare));
+  addToBucket('0x02', DEFAULT_COMPOUNDING_BALANCE, stakeETH * compoundingShare);
+  return next;
+}
+
+/**
+ * Remove exited or penalized stake proportionally across buckets
+ */
+export function removeStake(
+  distribution: EffectiveBalanceDistribution,
+  stakeETH: number
+): EffectiveBalanceDistribution {
+  const total = getTotalEffectiveBalance(distribution);
+  if (stakeETH <= 0 || total <= 0) return distribution;
+
+  const keep = Math.max(0, 1 - stakeETH / total);
+  return distribution.map((bucket) => ({ ...bucket, count: bucket.count * keep }));
+}
+
+/**
+ * Consolidate 0x01 stake into compounding validators
+ * Each 32 ETH source validator disappears; the stake lands on a target
+ * of the given size, so the validator count shrinks without any change
+ * in total effective balance
+ */
+export function consolidate(
+  distribution: EffectiveBalanceDistribution,
+  consolidatedETH: number,
+  targetBalance: number = DEFAULT_COMPOUNDING_BALANCE,
+  config: ChainConfig = MAINNET_CONFIG
+): EffectiveBalanceDistribution {
+  const baseBalance = config.minActivationBalance / 1e9;
+  const legacy = distribution.find(
+    (bucket) => bucket.credentials === '0x01' && bucket.effectiveBalance === baseBalance
+  );
+  if (!legacy || consolidatedETH <= 0) return distribution;
+
+  const movedETH = Math.min(consolidatedETH, legacy.count * baseBalance);
+  const withoutSources = distribution.map((bucket) =>
+    bucket === legacy ? { ...bucket, count: bucket.count - movedETH / baseBalance } : { ...bucket }
+  );
+  const target = withoutSources.find(
+    (bucket) => bucket.credentials === '0x02' && bucket.effectiveBalance === targetBalance
+  );
+  if (target) {
+    target.count += movedETH / targetBalance;
+  } else {
+    withoutSources.push({
+      credentials: '0x02',
+      effectiveBalance: targetBalance,
+      balance: targetBalance,
+      count: movedETH / targetBalance,
+    });
+  }
+  return withoutSources;
+}
+
+/**
+ * Accrue consensus rewards for one day
+ * 0x01 rewards above 32 ETH are skimmed by the withdrawal sweep; 0x02
+ * rewards compound into balance and, past the hysteresis band, into
+ * effective balance
+ */
+export function accrueRewards(
+  distribution: EffectiveBalanceDistribution,
+  dailyRewardRate: number,
+  config: ChainConfig = MAINNET_CONFIG
+): { distribution: EffectiveBalanceDistribution; skimmedETH: number; effectiveBalanceGainETH: number } {
+  let skimmedETH = 0;
+  let effectiveBalanceGainETH = 0;
+
+  const next = distribution.map((bucket) => {
+    let balance = bucket.balance * (1 + dailyRewardRate);
+    if (bucket.credentials === '0x01') {
+      skimmedETH += Math.max(0, balance - bucket.effectiveBalance) * bucket.count;
+      return { ...bucket, balance: Math.min(balance, bucket.effectiveBalance) };
+    }
+
+    // Compounding validators are only skimmed above the Electra maximum
+    const maxBalance = getMaxEffectiveBalance(bucket.credentials, config);
+    if (balance > maxBalance) {
+      skimmedETH += (balance - maxBalance) * bucket.count;
+      balance = maxBalance;
+    }
+
+    const effectiveBalance = applyHysteresis(
+      balance,
+      bucket.effectiveBalance,
+      bucket.credentials,
+      config
+    );
+    effectiveBalanceGainETH += (effectiveBalance - bucket.effectiveBalance) * bucket.count;
+    return { ...bucket, balance, effectiveBalance };
+  });
+
+  return { distribution: next, skimmedETH, effectiveBalanceGainETH };
+}
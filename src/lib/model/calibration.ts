@@ -0,0 +1,331 @@
+/**
+ * Fee Regime Calibration
+ *
+ * Fits the three-state fee regime model to execution history with a
+ * Gaussian hidden Markov model on log daily yield (Baum-Welch). Fitted
+ * states are ordered by mean yield so they map onto calm, elevated and hot.
+ * Gas price, priority fees and MEV are then fitted per regime from the
+ * same state probabilities.
+ */
+
+import { min, max, standardDeviation, linearRegression } from 'simple-statistics';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import {
+  type ExecutionComponentModel,
+  type ExecutionComponentSeries,
+  type ExecutionDataPoint,
+  type FeeRegime,
+  type RegimeMeanReversion,
+  type RegimeParameters,
+  type RegimeTransitions,
+  DEFAULT_REGIME_PARAMETERS,
+  FEE_REGIMES,
+  getDailyYieldSeries,
+  getExecutionComponentSeries,
+} from './execution';
+
+/**
+ * Baum-Welch settings
+ */
+export interface RegimeFitOptions {
+  maxIterations?: number;
+  tolerance?: number; // Stop when log-likelihood improves by less than this
+}
+
+/**
+ * Fitted regime model
+ */
+export interface RegimeFit {
+  parameters: RegimeParameters;
+  logLikelihood: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Minimum days of history needed for a fit
+ */
+export const MIN_REGIME_FIT_DAYS = 30;
+
+const STATE_COUNT = 3;
+const DEFAULT_MAX_ITERATIONS = 200;
+const DEFAULT_TOLERANCE = 1e-6;
+const MIN_LOG_STD = 0.05;
+const MIN_DAILY_YIELD = 1e-7;
+const HALF_LIFE_BOUNDS = { min: 0.5, max: 90 }; // Days
+
+function gaussianDensity(x: number, mu: number, sigma: number): number {
+  const z = (x - mu) / sigma;
+  return Math.max(Math.exp(-0.5 * z * z) / (sigma * Math.sqrt(2 * Math.PI)), Number.MIN_VALUE);
+}
+
+/**
+ * Fit a 3-state hidden Markov model to execution history
+ *
+ * Emissions are Gaussian in log daily yield per 32 ETH. After fitting,
+ * each regime's mean reversion target is its average yield and its
+ * half-life comes from the day-to-day autocorrelation within the regime.
+ * Gas price and MEV get their own per-regime targets and half-lives, and
+ * priority fees are regressed on gas price in logs.
+ */
+export function fitRegimeModel(
+  history: ExecutionDataPoint[],
+  totalStakedETH: number,
+  options: RegimeFitOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): RegimeFit {
+  if (history.length < MIN_REGIME_FIT_DAYS) {
+    throw new Error(
+      `Need at least ${MIN_REGIME_FIT_DAYS} days of execution history to fit fee regimes`
+    );
+  }
+
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const yields = getDailyYieldSeries(history, totalStakedETH, config);
+  const x = yields.map((y) => Math.log(Math.max(y, MIN_DAILY_YIELD)));
+  const T = x.length;
+
+  // Spread initial means evenly across the observed range so a dominant
+  // regime does not capture more than one state
+  const low = min(x);
+  const range = max(x) - low;
+  const initialStd = Math.max(standardDeviation(x) / 2, MIN_LOG_STD);
+  let mu = [1 / 6, 1 / 2, 5 / 6].map((p) => low + range * p);
+  let sigma = [initialStd, initialStd, initialStd];
+  let pi = [1 / 3, 1 / 3, 1 / 3];
+  let A = [
+    [0.8, 0.1, 0.1],
+    [0.1, 0.8, 0.1],
+    [0.1, 0.1, 0.8],
+  ];
+
+  let gamma: number[][] = [];
+  let logLikelihood = -Infinity;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const B = x.map((xt) => mu.map((m, k) => gaussianDensity(xt, m, sigma[k])));
+
+    // Scaled forward pass
+    const alpha: number[][] = [];
+    const scale: number[] = [];
+    for (let t = 0; t < T; t++) {
+      const row = mu.map((_, j) =>
+        t === 0
+          ? pi[j] * B[t][j]
+          : alpha[t - 1].reduce((sum, a, i) => sum + a * A[i][j], 0) * B[t][j]
+      );
+      const c = row.reduce((sum, v) => sum + v, 0);
+      scale.push(c);
+      alpha.push(row.map((v) => v / c));
+    }
+
+    // Scaled backward pass
+    const beta: number[][] = new Array(T);
+    beta[T - 1] = [1, 1, 1];
+    for (let t = T - 2; t >= 0; t--) {
+      beta[t] = mu.map((_, i) =>
+        mu.reduce((sum, __, j) => sum + A[i][j] * B[t + 1][j] * beta[t + 1][j], 0) / scale[t + 1]
+      );
+    }
+
+    gamma = alpha.map((row, t) => {
+      const g = row.map((a, k) => a * beta[t][k]);
+      const total = g.reduce((sum, v) => sum + v, 0);
+      return g.map((v) => v / total);
+    });
+
+    // Expected transition counts
+    const xiSum = [
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    for (let t = 0; t < T - 1; t++) {
+      for (let i = 0; i < STATE_COUNT; i++) {
+        for (let j = 0; j < STATE_COUNT; j++) {
+          xiSum[i][j] += (alpha[t][i] * A[i][j] * B[t + 1][j] * beta[t + 1][j]) / scale[t + 1];
+        }
+      }
+    }
+
+    // Re-estimate parameters, keeping the previous values for empty states
+    const occupancy = mu.map((_, k) => gamma.reduce((sum, g) => sum + g[k], 0));
+    const nextMu = mu.map((m, k) =>
+      occupancy[k] > 1e-9
+        ? gamma.reduce((sum, g, t) => sum + g[k] * x[t], 0) / occupancy[k]
+        : m
+    );
+    const nextSigma = sigma.map((s, k) =>
+      occupancy[k] > 1e-9
+        ? Math.max(
+          Math.sqrt(
+            gamma.reduce((sum, g, t) => sum + g[k] * (x[t] - nextMu[k]) ** 2, 0) / occupancy[k]
+          ),
+          MIN_LOG_STD
+        )
+        : s
+    );
+    const nextA = A.map((row, i) => {
+      const total = xiSum[i].reduce((sum, v) => sum + v, 0);
+      return total > 1e-9 ? xiSum[i].map((v) => v / total) : row;
+    });
+
+    mu = nextMu;
+    sigma = nextSigma;
+    A = nextA;
+    pi = gamma[0];
+
+    const nextLogLikelihood = scale.reduce((sum, c) => sum + Math.log(c), 0);
+    if (Math.abs(nextLogLikelihood - logLikelihood) < tolerance) {
+      logLikelihood = nextLogLikelihood;
+      converged = true;
+      break;
+    }
+    logLikelihood = nextLogLikelihood;
+  }
+
+  // Order states by mean so index 0 is calm and index 2 is hot
+  const order = [0, 1, 2].sort((a, b) => mu[a] - mu[b]);
+  const byRegime = <V>(f: (state: number, regime: FeeRegime) => V) =>
+    Object.fromEntries(
+      FEE_REGIMES.map((regime, r) => [regime, f(order[r], regime)])
+    ) as Record<FeeRegime, V>;
+
+  const toTransitions = (state: number): RegimeTransitions => ({
+    toCalm: A[state][order[0]],
+    toElevated: A[state][order[1]],
+    toHot: A[state][order[2]],
+  });
+
+  // Boundary where adjacent regimes are equally likely (in log space)
+  const boundary = (lower: number, upper: number) =>
+    Math.exp(
+      (mu[lower] * sigma[upper] + mu[upper] * sigma[lower]) / (sigma[lower] + sigma[upper])
+    );
+  const calmMax = boundary(order[0], order[1]);
+  const hotMin = boundary(order[1], order[2]);
+
+  const occupancy = mu.map((_, k) => gamma.reduce((sum, g) => sum + g[k], 0));
+
+  return {
+    parameters: {
+      thresholds: {
+        calm: { max: calmMax },
+        elevated: { min: calmMax, max: hotMin },
+        hot: { min: hotMin },
+      },
+      transitionMatrix: byRegime(toTransitions),
+      meanReversion: byRegime((state, regime) =>
+        fitMeanReversion(yields, gamma, state, DEFAULT_REGIME_PARAMETERS.meanReversion[regime])
+      ),
+      emissions: byRegime((state) => ({ logMean: mu[state], logStd: sigma[state] })),
+      // Long-run occupancy is a better prior for new histories than pi
+      initialProbabilities: byRegime((state) => occupancy[state] / T),
+      components: fitExecutionComponents(
+        getExecutionComponentSeries(history, totalStakedETH, config),
+        gamma,
+        order
+      ),
+    },
+    logLikelihood,
+    iterations,
+    converged,
+  };
+}
+
+/**
+ * Regime mean and AR(1) half-life, weighting each day by its regime probability
+ */
+function fitMeanReversion(
+  yields: number[],
+  gamma: number[][],
+  state: number,
+  fallback: { target: number; halfLife: number }
+): { target: number; halfLife: number } {
+  const weight = gamma.reduce((sum, g) => sum + g[state], 0);
+  if (weight <= 1e-9) return fallback;
+  const target = gamma.reduce((sum, g, t) => sum + g[state] * yields[t], 0) / weight;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let t = 1; t < yields.length; t++) {
+    const w = gamma[t - 1][state] * gamma[t][state];
+    covariance += w * (yields[t] - target) * (yields[t - 1] - target);
+    variance += w * (yields[t - 1] - target) ** 2;
+  }
+  if (variance <= 0) return { target, halfLife: fallback.halfLife };
+
+  // Persistence bounds translate directly into half-life bounds
+  const phi = Math.min(
+    Math.max(covariance / variance, Math.pow(0.5, 1 / HALF_LIFE_BOUNDS.min)),
+    Math.pow(0.5, 1 / HALF_LIFE_BOUNDS.max)
+  );
+  return { target, halfLife: Math.log(0.5) / Math.log(phi) };
+}
+
+/**
+ * Per-regime gas and MEV reversion plus the fee-to-gas power law
+ * States are given in calm, elevated, hot order
+ */
+function fitExecutionComponents(
+  series: ExecutionComponentSeries,
+  gamma: number[][],
+  order: number[]
+): ExecutionComponentModel {
+  const defaults = DEFAULT_REGIME_PARAMETERS.components;
+  const byRegime = <V>(f: (state: number, regime: FeeRegime) => V) =>
+    Object.fromEntries(
+      FEE_REGIMES.map((regime, r) => [regime, f(order[r], regime)])
+    ) as Record<FeeRegime, V>;
+
+  const gasPrice = byRegime((state, regime) =>
+    fitMeanReversion(series.gasPrice, gamma, state, defaults.gasPrice[regime]));
+  const mev = byRegime((state, regime) =>
+    fitMeanReversion(series.mevYield, gamma, state, defaults.mev[regime]));
+
+  // ln(fee) = ln(scale) + elasticity * ln(gas), on days with both positive
+  const points = series.gasPrice
+    .map((gas, t) => [gas, series.priorityFeeYield[t]])
+    .filter(([gas, fee]) => gas > 0 && fee > 0)
+    .map(([gas, fee]) => [Math.log(gas), Math.log(fee)]);
+  const gasSpread = points.length > 1 ? standardDeviation(points.map(([g]) => g)) : 0;
+  const fit = gasSpread > 0 ? linearRegression(points) : null;
+
+  // Log noise around the probability-weighted regime target
+  const logNoise = (values: number[], model: RegimeMeanReversion, fallback: number) => {
+    const residuals = values.flatMap((value, t) => {
+      const target = FEE_REGIMES.reduce(
+        (sum, regime, r) => sum + gamma[t][order[r]] * model[regime].target,
+        0
+      );
+      return value > 0 && target > 0 ? [Math.log(value / target)] : [];
+    });
+    return residuals.length > 1 ? Math.max(standardDeviation(residuals), MIN_LOG_STD) : fallback;
+  };
+
+  return {
+    gasPrice,
+    priorityFeeScale: fit ? Math.exp(fit.b) : defaults.priorityFeeScale,
+    priorityFeeGasElasticity: fit ? fit.m : defaults.priorityFeeGasElasticity,
+    mev,
+    gasPriceLogStd: logNoise(series.gasPrice, gasPrice, defaults.gasPriceLogStd),
+    mevLogStd: logNoise(series.mevYield, mev, defaults.mevLogStd),
+  };
+}
+
+/**
+ * Fitted regime parameters, or the hand-calibrated defaults when the
+ * history is too short to fit
+ */
+export function calibrateRegimes(
+  history: ExecutionDataPoint[],
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): RegimeParameters {
+  if (history.length < MIN_REGIME_FIT_DAYS) return DEFAULT_REGIME_PARAMETERS;
+  return fitRegimeModel(history, totalStakedETH, {}, config).parameters;
+}
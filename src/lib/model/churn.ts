@@ -0,0 +1,137 @@
+/**
+ * Validator Churn Model
+ *
+ * Fork-aware churn limits for activations, exits and consolidations.
+ * Pre-Electra churn is counted in validators (32 ETH each); since Electra
+ * it is measured in Gwei of effective balance, with a separate budget
+ * for consolidations. All limits are returned in ETH per epoch.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG, getSecondsPerEpoch } from './config';
+
+/**
+ * Consensus forks with distinct churn rules
+ */
+export type Fork = 'capella' | 'deneb' | 'electra';
+
+/**
+ * Per-epoch churn budgets in ETH
+ */
+export interface ChurnLimits {
+  activation: number;
+  exit: number;
+  consolidation: number;
+}
+
+/**
+ * Get the epoch containing a given date
+ */
+export function getEpochAtDate(date: Date, config: ChainConfig = MAINNET_CONFIG): number {
+  const seconds = date.getTime() / 1000 - config.genesisTime;
+  return Math.max(0, Math.floor(seconds / getSecondsPerEpoch(config)));
+}
+
+/**
+ * Get the fork active at a given epoch
+ */
+export function getForkAtEpoch(epoch: number, config: ChainConfig = MAINNET_CONFIG): Fork {
+  if (epoch >= config.electraForkEpoch) return 'electra';
+  if (epoch >= config.denebForkEpoch) return 'deneb';
+  return 'capella';
+}
+
+/**
+ * Get the fork active at a given date
+ */
+export function getForkAtDate(date: Date, config: ChainConfig = MAINNET_CONFIG): Fork {
+  return getForkAtEpoch(getEpochAtDate(date, config), config);
+}
+
+/**
+ * Pre-Electra validator churn limit (validators per epoch)
+ */
+export function getValidatorChurnLimit(
+  activeValidatorCount: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  return Math.max(
+    config.minPerEpochChurnLimit,
+    Math.floor(activeValidatorCount / config.churnLimitQuotient)
+  );
+}
+
+/**
+ * Electra balance churn limit in Gwei
+ * Formula: max(MIN_PER_EPOCH_CHURN_LIMIT_ELECTRA, total_active_balance // CHURN_LIMIT_QUOTIENT),
+ * rounded down to a whole effective balance increment
+ */
+export function getBalanceChurnLimit(
+  totalActiveBalanceETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const totalActiveBalanceGwei = totalActiveBalanceETH * 1e9;
+  const churn = Math.max(
+    config.minPerEpochChurnLimitElectra,
+    Math.floor(totalActiveBalanceGwei / config.churnLimitQuotient)
+  );
+  return churn - (churn % config.effectiveBalanceIncrement);
+}
+
+/**
+ * Electra activation/exit churn limit in Gwei
+ */
+export function getActivationExitChurnLimit(
+  totalActiveBalanceETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  return Math.min(
+    config.maxPerEpochActivationExitChurnLimit,
+    getBalanceChurnLimit(totalActiveBalanceETH, config)
+  );
+}
+
+/**
+ * Electra consolidation churn limit in Gwei
+ * Whatever balance churn is left over after the activation/exit cap
+ */
+export function getConsolidationChurnLimit(
+  totalActiveBalanceETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  return (
+    getBalanceChurnLimit(totalActiveBalanceETH, config) -
+    getActivationExitChurnLimit(totalActiveBalanceETH, config)
+  );
+}
+
+/**
+ * Calculate activation, exit and consolidation churn in ETH per epoch
+ * Pre-Electra forks assume every validator holds MAX_EFFECTIVE_BALANCE
+ */
+export function getChurnLimits(
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  config: ChainConfig = MAINNET_CONFIG
+): ChurnLimits {
+  if (fork === 'electra') {
+    const activationExit = getActivationExitChurnLimit(totalActiveBalanceETH, config) / 1e9;
+    return {
+      activation: activationExit,
+      exit: activationExit,
+      consolidation: getConsolidationChurnLimit(totalActiveBalanceETH, config) / 1e9,
+    };
+  }
+
+  const validatorBalanceETH = config.maxEffectiveBalance / 1e9;
+  const activeValidatorCount = Math.floor(totalActiveBalanceETH / validatorBalanceETH);
+  const validatorChurn = getValidatorChurnLimit(activeValidatorCount, config);
+  const activationChurn = fork === 'deneb'
+    ? Math.min(config.maxPerEpochActivationChurnLimit, validatorChurn)
+    : validatorChurn;
+
+  return {
+    activation: activationChurn * validatorBalanceETH,
+    exit: validatorChurn * validatorBalanceETH,
+    consolidation: 0,
+  };
+}
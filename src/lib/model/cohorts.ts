@@ -0,0 +1,394 @@
+/**
+ * Staker Cohorts
+ *
+ * Splits stake by who holds it: liquid staking protocols, centralized
+ * exchanges, staking pools, solo stakers and restaking, with the
+ * unlabelled remainder as "other". Entity-labelled stake is loaded from a
+ * local CSV, each cohort gets its own fitted trend and APR sensitivity, and
+ * the forecast pushes every cohort's flows through the shared entry and
+ * exit queues.
+ */
+
+import { mean } from 'simple-statistics';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import { parseCSVRecords } from './csv';
+import { MIN_ELASTICITY_T_STAT } from './demand';
+import { getRealisticAPR } from './protocol';
+import { type DepositQueueStep } from './deposits';
+import { type ExitQueueStep } from './exits';
+import type { HistoricalDataPoint } from './forecast';
+
+/**
+ * Staker cohorts
+ */
+export type StakerCohort = 'lst' | 'cex' | 'pool' | 'solo' | 'restaking' | 'other';
+
+/**
+ * A value per cohort; cohorts without data are absent
+ */
+export type CohortValues = Partial<Record<StakerCohort, number>>;
+
+/**
+ * One entity's stake on one day, from a labelled data dump
+ */
+export interface CohortStakeRecord {
+  date: Date;
+  entity: string;
+  cohort: StakerCohort;
+  stakeETH: number;
+}
+
+/**
+ * Fitted flow model for one cohort
+ */
+export interface CohortFlowModel {
+  cohort: StakerCohort;
+  trend: number; // Net flow at the reference APR (ETH/day)
+  trendStdErr: number;
+  aprSensitivity: number; // Change in net flow per percentage point of APR (ETH/day)
+  aprSensitivityStdErr: number;
+  referenceAPR: number; // Mean APR over the fit (%)
+  residualStd: number; // Daily flow scatter around the fit (ETH/day)
+  samples: number;
+}
+
+/**
+ * A cohort's stake and queued flows during a forecast
+ */
+export interface CohortState {
+  stakeETH: number;
+  entryQueueETH: number; // Cohort deposits waiting in the shared entry queue
+  exitQueueETH: number; // Cohort exits waiting in the shared exit queue
+}
+
+/**
+ * A cohort's flows on one forecast day
+ */
+export interface CohortStep extends CohortState {
+  demandETH: number; // Net demand arriving during the day
+  activatedETH: number;
+  exitedETH: number;
+}
+
+export type CohortStates = Partial<Record<StakerCohort, CohortState>>;
+export type CohortBreakdown = Partial<Record<StakerCohort, CohortStep>>;
+
+export const STAKER_COHORTS: StakerCohort[] = ['lst', 'cex', 'pool', 'solo', 'restaking', 'other'];
+
+export const COHORT_LABELS: Record<StakerCohort, string> = {
+  lst: 'Liquid staking',
+  cex: 'Exchanges',
+  pool: 'Staking pools',
+  solo: 'Solo stakers',
+  restaking: 'Restaking',
+  other: 'Other',
+};
+
+/**
+ * Minimum daily observations before a cohort gets a fitted flow model
+ */
+export const MIN_COHORT_FIT_SAMPLES = 14;
+
+const COHORT_ALIASES: Record<string, StakerCohort> = {
+  lst: 'lst',
+  'liquid staking': 'lst',
+  'liquid-staking': 'lst',
+  cex: 'cex',
+  exchange: 'cex',
+  exchanges: 'cex',
+  pool: 'pool',
+  pools: 'pool',
+  'staking pool': 'pool',
+  'staking pools': 'pool',
+  solo: 'solo',
+  'solo staker': 'solo',
+  'solo stakers': 'solo',
+  restaking: 'restaking',
+  lrt: 'restaking',
+  other: 'other',
+};
+
+const MIN_APR_VARIANCE = 1e-6; // pp^2
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse entity-labelled stake from CSV with a header row
+ * Needs `date`, `entity`, `cohort` and `stakeETH` (or `stake`) columns;
+ * cohorts accept common names such as "exchange" or "liquid staking".
+ * Quoted fields may contain commas. Errors name the file line.
+ */
+export function parseCohortStakeCSV(text: string): CohortStakeRecord[] {
+  return parseCSVRecords(text).map(({ line, values: record }) => {
+    const date = new Date(record.date);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid cohort stake on line ${line}: "date" must be a date`);
+    }
+    const cohort = COHORT_ALIASES[(record.cohort ?? '').toLowerCase()];
+    if (!cohort) {
+      throw new Error(`Invalid cohort stake on line ${line}: unknown cohort "${record.cohort}"`);
+    }
+    const stakeETH = Number(record.stakeETH ?? record.stake);
+    if (!Number.isFinite(stakeETH) || stakeETH < 0) {
+      throw new Error(`Invalid cohort stake on line ${line}: "stakeETH" must be a non-negative number`);
+    }
+
+    return { date, entity: record.entity ?? '', cohort, stakeETH };
+  });
+}
+
+/**
+ * Load entity-labelled stake from CSV text or a File/Blob
+ */
+export async function loadCohortStake(source: string | Blob): Promise<CohortStakeRecord[]> {
+  return parseCohortStakeCSV(typeof source === 'string' ? source : await source.text());
+}
+
+/**
+ * Sum entity stake into cohorts and attach it to the history points on
+ * the same (UTC) day
+ */
+export function attachCohortStake(
+  history: HistoricalDataPoint[],
+  records: CohortStakeRecord[]
+): HistoricalDataPoint[] {
+  const byDay = new Map<string, CohortValues>();
+  for (const record of records) {
+    const key = toDayKey(record.date);
+    const cohorts = byDay.get(key) ?? {};
+    cohorts[record.cohort] = (cohorts[record.cohort] ?? 0) + record.stakeETH;
+    byDay.set(key, cohorts);
+  }
+
+  return history.map((point) => {
+    const cohorts = byDay.get(toDayKey(point.timestamp));
+    return cohorts ? { ...point, cohortStakeETH: cohorts } : point;
+  });
+}
+
+/**
+ * Cohort stake on a history point, with unlabelled stake as "other"
+ */
+export function getCohortStake(point: HistoricalDataPoint): CohortValues | undefined {
+  if (!point.cohortStakeETH) return undefined;
+
+  const cohorts: CohortValues = { ...point.cohortStakeETH };
+  const labelled = STAKER_COHORTS.filter((c) => c !== 'other')
+    .reduce((sum, c) => sum + (cohorts[c] ?? 0), 0);
+  cohorts.other = (cohorts.other ?? 0) + Math.max(0, point.totalStakedETH - labelled);
+  return cohorts;
+}
+
+/**
+ * Fit each cohort's daily stake change on the network APR
+ *
+ * The intercept is taken at the mean APR over the fit, so the trend is the
+ * cohort's average flow and the sensitivity moves it as APR departs from
+ * that level. Days without an observed APR use the protocol's expected APR.
+ * Cohorts with too little data are left out. As with the demand curve, a
+ * sensitivity that is not positive and significant (t-statistic below
+ * MIN_ELASTICITY_T_STAT) is zero, leaving the cohort its mean flow. The
+ * standard errors and residual scatter let Monte Carlo paths draw each
+ * cohort's flows.
+ */
+export function fitCohortFlows(
+  history: HistoricalDataPoint[],
+  config: ChainConfig = MAINNET_CONFIG
+): CohortFlowModel[] {
+  const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return STAKER_COHORTS.flatMap((cohort) => {
+    const x: number[] = [];
+    const y: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1];
+      const point = sorted[i];
+      const days = (point.timestamp.getTime() - prev.timestamp.getTime()) / MS_PER_DAY;
+      const prevStake = getCohortStake(prev)?.[cohort];
+      const stake = getCohortStake(point)?.[cohort];
+      if (days <= 0 || prevStake === undefined || stake === undefined) continue;
+
+      x.push(prev.observedAPR ?? getRealisticAPR(
+        prev.totalStakedETH,
+        prev.networkParticipation,
+        undefined,
+        undefined,
+        config
+      ));
+      y.push((stake - prevStake) / days);
+    }
+
+    const n = x.length;
+    if (n < MIN_COHORT_FIT_SAMPLES) return [];
+
+    const xMean = mean(x);
+    const yMean = mean(y);
+    const sxx = x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0);
+    const slope = sxx / n >= MIN_APR_VARIANCE
+      ? x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0) / sxx
+      : 0;
+    const residualVariance =
+      y.reduce((sum, yi, i) => sum + (yi - yMean - slope * (x[i] - xMean)) ** 2, 0) / (n - 2);
+    const slopeStdErr = sxx > 0 ? Math.sqrt(residualVariance / sxx) : 0;
+
+    if (slope <= 0 || slope < MIN_ELASTICITY_T_STAT * slopeStdErr) {
+      const residualStd = Math.sqrt(
+        y.reduce((sum, yi) => sum + (yi - yMean) ** 2, 0) / (n - 1)
+      );
+      return [{
+        cohort,
+        trend: yMean,
+        trendStdErr: residualStd / Math.sqrt(n),
+        aprSensitivity: 0,
+        aprSensitivityStdErr: 0,
+        referenceAPR: xMean,
+        residualStd,
+        samples: n,
+      }];
+    }
+
+    return [{
+      cohort,
+      trend: yMean,
+      trendStdErr: Math.sqrt(residualVariance / n),
+      aprSensitivity: slope,
+      aprSensitivityStdErr: slopeStdErr,
+      referenceAPR: xMean,
+      residualStd: Math.sqrt(residualVariance),
+      samples: n,
+    }];
+  });
+}
+
+/**
+ * Starting cohort states for a forecast
+ * Queues already waiting are attributed by stake share
+ */
+export function getInitialCohortStates(
+  latestState: HistoricalDataPoint,
+  entryQueueETH: number,
+  exitQueueETH: number
+): CohortStates {
+  const stake = getCohortStake(latestState);
+  const states: CohortStates = {};
+  if (!stake) return states;
+
+  const total = STAKER_COHORTS.reduce((sum, c) => sum + (stake[c] ?? 0), 0);
+  for (const cohort of STAKER_COHORTS) {
+    const stakeETH = stake[cohort];
+    if (stakeETH === undefined) continue;
+    const share = total > 0 ? stakeETH / total : 0;
+    states[cohort] = {
+      stakeETH,
+      entryQueueETH: entryQueueETH * share,
+      exitQueueETH: exitQueueETH * share,
+    };
+  }
+  return states;
+}
+
+/**
+ * Each cohort's net demand (ETH/day) at today's APR
+ * Cohorts without a fitted model keep only their share of the demand
+ * common to all stakers (scenario bias, covariates), which is split by
+ * stake share.
+ */
+export function getCohortDemands(
+  states: CohortStates,
+  models: CohortFlowModel[],
+  totalAPR: number,
+  sharedDemandETH: number
+): CohortValues {
+  const cohorts = STAKER_COHORTS.filter((c) => states[c]);
+  const total = cohorts.reduce((sum, c) => sum + (states[c]?.stakeETH ?? 0), 0);
+  const demands: CohortValues = {};
+  for (const cohort of cohorts) {
+    const model = models.find((m) => m.cohort === cohort);
+    const share = total > 0 ? (states[cohort]?.stakeETH ?? 0) / total : 0;
+    demands[cohort] =
+      (model ? model.trend + model.aprSensitivity * (totalAPR - model.referenceAPR) : 0) +
+      sharedDemandETH * share;
+  }
+  return demands;
+}
+
+/**
+ * Advance cohort states by one day of shared queue processing
+ *
+ * Positive demand joins the entry queue and negative demand the exit
+ * queue; one-off deposit and exit demand (events) is split by stake share.
+ * Each queue processes every cohort's waiting ETH at the same rate, and
+ * cohort stakes are then rescaled to the total so rewards, penalties and
+ * forced exits fall on cohorts in proportion to their stake.
+ */
+export function stepCohorts(
+  states: CohortStates,
+  demands: CohortValues,
+  deposits: DepositQueueStep,
+  exits: ExitQueueStep,
+  shocks: { depositDemandETH: number; exitDemandETH: number },
+  totalStakedETH: number
+): { states: CohortStates; breakdown: CohortBreakdown } {
+  const cohorts = STAKER_COHORTS.filter((c) => states[c]);
+  const totalStake = cohorts.reduce((sum, c) => sum + (states[c]?.stakeETH ?? 0), 0);
+  const entryRate = deposits.pendingETH + deposits.processedETH > 0
+    ? deposits.processedETH / (deposits.pendingETH + deposits.processedETH)
+    : 0;
+  const exitRate = exits.pendingETH + exits.processedETH > 0
+    ? exits.processedETH / (exits.pendingETH + exits.processedETH)
+    : 0;
+
+  const breakdown: CohortBreakdown = {};
+  for (const cohort of cohorts) {
+    const state = states[cohort] as CohortState;
+    const share = totalStake > 0 ? state.stakeETH / totalStake : 0;
+    const demandETH = demands[cohort] ?? 0;
+    const queuedEntryETH =
+      state.entryQueueETH + Math.max(0, demandETH) + shocks.depositDemandETH * share;
+    const queuedExitETH =
+      state.exitQueueETH + Math.max(0, -demandETH) + shocks.exitDemandETH * share;
+    const activatedETH = queuedEntryETH * entryRate;
+    const exitedETH = Math.min(queuedExitETH * exitRate, state.stakeETH + activatedETH);
+
+    breakdown[cohort] = {
+      stakeETH: state.stakeETH + activatedETH - exitedETH,
+      entryQueueETH: queuedEntryETH - activatedETH,
+      exitQueueETH: queuedExitETH - exitedETH,
+      demandETH,
+      activatedETH,
+      exitedETH,
+    };
+  }
+
+  const projected = cohorts.reduce((sum, c) => sum + (breakdown[c]?.stakeETH ?? 0), 0);
+  const scale = projected > 0 ? totalStakedETH / projected : 0;
+  const next: CohortStates = {};
+  for (const cohort of cohorts) {
+    const step = breakdown[cohort] as CohortStep;
+    step.stakeETH *= scale;
+    next[cohort] = {
+      stakeETH: step.stakeETH,
+      entryQueueETH: step.entryQueueETH,
+      exitQueueETH: step.exitQueueETH,
+    };
+  }
+
+  return { states: next, breakdown };
+}
+
+/**
+ * Total entry and exit arrivals (ETH) implied by cohort demands
+ */
+export function getCohortArrivals(demands: CohortValues): { entryETH: number; exitETH: number } {
+  let entryETH = 0;
+  let exitETH = 0;
+  for (const cohort of STAKER_COHORTS) {
+    const demand = demands[cohort] ?? 0;
+    entryETH += Math.max(0, demand);
+    exitETH += Math.max(0, -demand);
+  }
+  return { entryETH, exitETH };
+}
@@ -0,0 +1,417 @@
+/**
+ * Stake Concentration
+ *
+ * How much of the stake the largest entities control, and how likely one
+ * of them is to cross a consensus threshold: a third of stake can stall
+ * finality, half can steer the fork choice and two thirds can finalize on
+ * its own. Each labelled entity's share of its cohort follows a random walk
+ * fitted to the labelled history, while the cohort's share of the network
+ * follows the stake forecast, so concentration moves with both.
+ */
+
+import { mean, standardDeviation } from 'simple-statistics';
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import {
+  type CohortStakeRecord,
+  type CohortValues,
+  type StakerCohort,
+  STAKER_COHORTS,
+  getCohortStake,
+} from './cohorts';
+import { createRng, sampleNormal } from './random';
+import {
+  type PercentileBand,
+  DEFAULT_SIMULATION_SEED,
+  getPercentileBand,
+} from './simulation';
+import type { ForecastPoint, HistoricalDataPoint } from './forecast';
+
+/**
+ * Fitted share dynamics for one labelled entity
+ */
+export interface EntityShareModel {
+  entity: string;
+  cohort: StakerCohort;
+  stakeETH: number; // On the latest labelled day
+  networkShare: number; // Of total stake (%)
+  cohortShare: number; // Of its cohort's stake (0-1)
+  drift: number; // Mean daily log change of the cohort share
+  volatility: number; // Std of the daily log change
+  samples: number;
+}
+
+/**
+ * Concentration at one point in time
+ */
+export interface ConcentrationSnapshot {
+  largestEntity?: string;
+  largestEntityShare: number; // %
+  nakamotoCoefficient: number; // Infinity when labelled entities together stay below a third
+}
+
+/**
+ * Probability that any entity has reached a stake threshold
+ */
+export interface ThresholdProbability {
+  threshold: number; // % of total stake
+  probability: number; // 0-1, any day up to this point
+}
+
+/**
+ * Probability of reaching a threshold within the horizon, with the entity
+ * most likely to do so
+ */
+export interface ThresholdRisk extends ThresholdProbability {
+  likeliestEntity?: string;
+  likeliestEntityProbability: number;
+}
+
+/**
+ * Simulated concentration at one forecast date
+ */
+export interface ConcentrationPoint {
+  date: Date;
+  day: number; // Days ahead
+  largestEntityShare: PercentileBand; // %
+  nakamotoCoefficient: PercentileBand;
+  thresholds: ThresholdProbability[];
+}
+
+/**
+ * Concentration forecast over a horizon
+ */
+export interface ConcentrationForecast {
+  current: ConcentrationSnapshot;
+  entities: EntityShareModel[]; // Largest first
+  points: ConcentrationPoint[];
+  thresholdRisks: ThresholdRisk[]; // Over the whole horizon
+}
+
+/**
+ * Concentration simulation settings
+ */
+export interface ConcentrationOptions {
+  thresholds?: number[]; // % of total stake (default: CONSENSUS_THRESHOLDS)
+  paths?: number;
+  seed?: number;
+}
+
+/**
+ * Stake shares (%) at which a single entity can stall finality, steer the
+ * fork choice and finalize alone
+ */
+export const CONSENSUS_THRESHOLDS = [100 / 3, 50, 200 / 3];
+
+/**
+ * Combined share (%) the Nakamoto coefficient counts entities up to
+ */
+export const NAKAMOTO_THRESHOLD = 100 / 3;
+
+/**
+ * Minimum daily observations before an entity's share dynamics are fitted
+ * rather than borrowed from its peers
+ */
+export const MIN_ENTITY_FIT_SAMPLES = 7;
+
+const DEFAULT_PATH_COUNT = 1000;
+
+// Stake and cohort by entity on one labelled day
+type EntityStakes = Map<string, { cohort: StakerCohort; stakeETH: number }>;
+
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Largest entity share and Nakamoto coefficient for entity shares (%)
+ */
+export function getConcentrationSnapshot(shares: Record<string, number>): ConcentrationSnapshot {
+  const sorted = Object.entries(shares).sort((a, b) => b[1] - a[1]);
+
+  let cumulative = 0;
+  let nakamotoCoefficient = Infinity;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i][1];
+    if (cumulative > NAKAMOTO_THRESHOLD) {
+      nakamotoCoefficient = i + 1;
+      break;
+    }
+  }
+
+  return {
+    largestEntity: sorted[0]?.[0],
+    largestEntityShare: sorted[0]?.[1] ?? 0,
+    nakamotoCoefficient,
+  };
+}
+
+/**
+ * Stake by entity and cohort on each labelled day
+ */
+function groupByDay(
+  records: CohortStakeRecord[]
+): Map<string, EntityStakes> {
+  const days = new Map<string, EntityStakes>();
+  for (const record of records) {
+    const key = toDayKey(record.date);
+    const entities = days.get(key) ?? new Map();
+    const entry = entities.get(record.entity) ?? { cohort: record.cohort, stakeETH: 0 };
+    entry.stakeETH += record.stakeETH;
+    entities.set(record.entity, entry);
+    days.set(key, entities);
+  }
+  return days;
+}
+
+/**
+ * Cohort stake on a labelled day, using the history's total stake for the
+ * unlabelled remainder when the history covers that day
+ */
+function getDayCohortStake(
+  entities: EntityStakes,
+  point: HistoricalDataPoint | undefined
+): { cohorts: CohortValues; totalStakedETH: number } {
+  const labelled: CohortValues = {};
+  let labelledTotal = 0;
+  for (const { cohort, stakeETH } of entities.values()) {
+    labelled[cohort] = (labelled[cohort] ?? 0) + stakeETH;
+    labelledTotal += stakeETH;
+  }
+  const totalStakedETH = Math.max(point?.totalStakedETH ?? 0, labelledTotal);
+  const cohorts = getCohortStake({
+    timestamp: point?.timestamp ?? new Date(0),
+    totalStakedETH,
+    activeValidators: 0,
+    entryQueueLength: 0,
+    exitQueueLength: 0,
+    cohortStakeETH: labelled,
+  }) ?? labelled;
+  return { cohorts, totalStakedETH };
+}
+
+/**
+ * Fit each labelled entity's share of its cohort
+ *
+ * Entities are taken from the latest labelled day. Drift and volatility
+ * come from daily log changes of the cohort share; entities with fewer than
+ * MIN_ENTITY_FIT_SAMPLES changes get no drift and the median volatility of
+ * the fitted entities.
+ */
+export function fitEntityShares(
+  history: HistoricalDataPoint[],
+  records: CohortStakeRecord[]
+): EntityShareModel[] {
+  const days = groupByDay(records);
+  const dayKeys = [...days.keys()].sort();
+  if (dayKeys.length === 0) return [];
+
+  const historyByDay = new Map(history.map((point) => [toDayKey(point.timestamp), point]));
+  const cohortShares = dayKeys.map((key) => {
+    const entities = days.get(key) as EntityStakes;
+    const { cohorts, totalStakedETH } = getDayCohortStake(entities, historyByDay.get(key));
+    const shares = new Map<string, number>();
+    for (const [entity, { cohort, stakeETH }] of entities) {
+      const cohortStake = cohorts[cohort] ?? 0;
+      if (cohortStake > 0 && stakeETH > 0) shares.set(entity, stakeETH / cohortStake);
+    }
+    return { key, shares, totalStakedETH };
+  });
+
+  const latestKey = dayKeys[dayKeys.length - 1];
+  const latest = days.get(latestKey) as EntityStakes;
+  const latestTotal = cohortShares[cohortShares.length - 1].totalStakedETH;
+
+  const models = [...latest].map(([entity, { cohort, stakeETH }]) => {
+    const changes: number[] = [];
+    for (let i = 1; i < cohortShares.length; i++) {
+      const prev = cohortShares[i - 1].shares.get(entity);
+      const current = cohortShares[i].shares.get(entity);
+      const gap = differenceInCalendarDays(
+        new Date(cohortShares[i].key),
+        new Date(cohortShares[i - 1].key)
+      );
+      if (prev === undefined || current === undefined || gap <= 0) continue;
+      changes.push(Math.log(current / prev) / gap);
+    }
+
+    const fitted = changes.length >= MIN_ENTITY_FIT_SAMPLES;
+    return {
+      entity,
+      cohort,
+      stakeETH,
+      networkShare: latestTotal > 0 ? (stakeETH / latestTotal) * 100 : 0,
+      cohortShare: cohortShares[cohortShares.length - 1].shares.get(entity) ?? 0,
+      drift: fitted ? mean(changes) : 0,
+      volatility: fitted ? standardDeviation(changes) : NaN,
+      samples: changes.length,
+    };
+  });
+
+  // Entities too new to fit borrow the typical volatility of the rest
+  const fittedVolatility = models
+    .filter((m) => !Number.isNaN(m.volatility))
+    .map((m) => m.volatility)
+    .sort((a, b) => a - b);
+  const pooledVolatility = fittedVolatility.length > 0
+    ? fittedVolatility[Math.floor(fittedVolatility.length / 2)]
+    : 0;
+
+  return models
+    .map((m) => (Number.isNaN(m.volatility) ? { ...m, volatility: pooledVolatility } : m))
+    .sort((a, b) => b.stakeETH - a.stakeETH);
+}
+
+/**
+ * Simulate concentration along a stake forecast
+ *
+ * Each path steps every entity's cohort share daily from its fitted drift
+ * and volatility (rescaled if a cohort's entities would exceed the cohort)
+ * and multiplies it by the cohort's share of the network, interpolated
+ * between forecast points; cohorts the forecast does not break out keep
+ * today's share. Threshold probabilities count a path once any entity has
+ * reached the threshold on any day up to the output date.
+ */
+export function forecastConcentration(
+  history: HistoricalDataPoint[],
+  records: CohortStakeRecord[],
+  forecast: ForecastPoint[],
+  options: ConcentrationOptions = {}
+): ConcentrationForecast {
+  const entities = fitEntityShares(history, records);
+  if (entities.length === 0) {
+    throw new Error('Need entity-labelled stake to forecast concentration');
+  }
+  if (history.length === 0) {
+    throw new Error('No historical data provided');
+  }
+
+  const thresholds = options.thresholds ?? CONSENSUS_THRESHOLDS;
+  const pathCount = options.paths ?? DEFAULT_PATH_COUNT;
+  const rng = createRng(options.seed ?? DEFAULT_SIMULATION_SEED);
+
+  const latestState = history.reduce((latest, point) =>
+    point.timestamp > latest.timestamp ? point : latest
+  );
+  const startDate = startOfDay(latestState.timestamp);
+
+  // Cohort shares of the network (0-1) today and at each forecast point
+  const days = groupByDay(records);
+  const latestKey = [...days.keys()].sort().pop() as string;
+  const today = getDayCohortStake(
+    days.get(latestKey) as EntityStakes,
+    latestState
+  );
+  const todayShares = STAKER_COHORTS.map((c) =>
+    today.totalStakedETH > 0 ? (today.cohorts[c] ?? 0) / today.totalStakedETH : 0
+  );
+  const anchors = [{ day: 0, date: startDate, shares: todayShares }];
+  for (const point of forecast) {
+    const day = differenceInCalendarDays(point.date, startDate);
+    if (day <= anchors[anchors.length - 1].day) continue;
+    const prevShares = anchors[anchors.length - 1].shares;
+    anchors.push({
+      day,
+      date: point.date,
+      shares: STAKER_COHORTS.map((c, i) => {
+        const step = point.cohorts[c];
+        return step && point.totalStakedETH > 0
+          ? step.stakeETH / point.totalStakedETH
+          : prevShares[i];
+      }),
+    });
+  }
+
+  const horizonDays = anchors[anchors.length - 1].day;
+  const outputDays = new Map(anchors.slice(1).map((a, i) => [a.day, i]));
+  const cohortIndex = entities.map((e) => STAKER_COHORTS.indexOf(e.cohort));
+  const entityCount = entities.length;
+
+  const logShares = new Float64Array(pathCount * entityCount);
+  for (let p = 0; p < pathCount; p++) {
+    entities.forEach((e, j) => {
+      logShares[p * entityCount + j] = Math.log(Math.max(e.cohortShare, Number.MIN_VALUE));
+    });
+  }
+  const crossed = thresholds.map(() => new Uint8Array(pathCount));
+  const crossedBy = thresholds.map(() => new Map<string, number>());
+  const largest = anchors.slice(1).map(() => new Float64Array(pathCount));
+  const nakamoto = anchors.slice(1).map(() => new Float64Array(pathCount));
+  const crossedAt = anchors.slice(1).map(() => thresholds.map(() => 0));
+
+  const shares = new Float64Array(entityCount);
+  const cohortSums = new Float64Array(STAKER_COHORTS.length);
+  let segment = 1;
+
+  for (let day = 1; day <= horizonDays; day++) {
+    while (anchors[segment].day < day) segment++;
+    const from = anchors[segment - 1];
+    const to = anchors[segment];
+    const w = (day - from.day) / (to.day - from.day);
+    const networkShares = from.shares.map((s, i) => s + (to.shares[i] - s) * w);
+    const output = outputDays.get(day);
+
+    for (let p = 0; p < pathCount; p++) {
+      const offset = p * entityCount;
+      cohortSums.fill(0);
+      for (let j = 0; j < entityCount; j++) {
+        const entity = entities[j];
+        if (entity.volatility > 0 || entity.drift !== 0) {
+          logShares[offset + j] += entity.drift + entity.volatility * sampleNormal(rng);
+        }
+        shares[j] = Math.exp(logShares[offset + j]);
+        cohortSums[cohortIndex[j]] += shares[j];
+      }
+
+      const pathShares: Record<string, number> = {};
+      for (let j = 0; j < entityCount; j++) {
+        const c = cohortIndex[j];
+        const cohortShare = cohortSums[c] > 1 ? shares[j] / cohortSums[c] : shares[j];
+        pathShares[entities[j].entity] = cohortShare * networkShares[c] * 100;
+      }
+      const snapshot = getConcentrationSnapshot(pathShares);
+
+      thresholds.forEach((threshold, t) => {
+        if (crossed[t][p] || snapshot.largestEntityShare < threshold) return;
+        crossed[t][p] = 1;
+        const entity = snapshot.largestEntity as string;
+        crossedBy[t].set(entity, (crossedBy[t].get(entity) ?? 0) + 1);
+      });
+
+      if (output !== undefined) {
+        largest[output][p] = snapshot.largestEntityShare;
+        nakamoto[output][p] = snapshot.nakamotoCoefficient;
+        thresholds.forEach((_, t) => {
+          crossedAt[output][t] += crossed[t][p];
+        });
+      }
+    }
+  }
+
+  const todaySnapshot = getConcentrationSnapshot(
+    Object.fromEntries(entities.map((e) => [e.entity, e.networkShare]))
+  );
+
+  return {
+    current: todaySnapshot,
+    entities,
+    points: anchors.slice(1).map((anchor, i) => ({
+      date: anchor.date,
+      day: anchor.day,
+      largestEntityShare: getPercentileBand(Array.from(largest[i])),
+      nakamotoCoefficient: getPercentileBand(Array.from(nakamoto[i])),
+      thresholds: thresholds.map((threshold, t) => ({
+        threshold,
+        probability: crossedAt[i][t] / pathCount,
+      })),
+    })),
+    thresholdRisks: thresholds.map((threshold, t) => {
+      const [likeliestEntity, count] = [...crossedBy[t]].sort((a, b) => b[1] - a[1])[0] ?? [];
+      return {
+        threshold,
+        probability: crossed[t].reduce((sum, v) => sum + v, 0) / pathCount,
+        likeliestEntity,
+        likeliestEntityProbability: (count ?? 0) / pathCount,
+      };
+    }),
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Chain Configuration
+ *
+ * Typed protocol parameters for the chain being modelled. Built-in presets
+ * cover mainnet and the public testnets; private devnets can load their
+ * own config from JSON. Balance and churn values are in Gwei, matching the
+ * consensus spec config files.
+ */
+
+/**
+ * Protocol parameters that vary between chains and presets
+ */
+export interface ChainConfig {
+  name: string;
+
+  // Time
+  secondsPerSlot: number;
+  slotsPerEpoch: number;
+  genesisTime: number; // Unix seconds
+
+  // Fork schedule
+  denebForkEpoch: number;
+  electraForkEpoch: number;
+
+  // Balances (Gwei)
+  effectiveBalanceIncrement: number;
+  minActivationBalance: number;
+  maxEffectiveBalance: number;
+  maxEffectiveBalanceElectra: number;
+
+  // Churn
+  minPerEpochChurnLimit: number; // Validators
+  churnLimitQuotient: number;
+  maxPerEpochActivationChurnLimit: number; // Validators (Deneb)
+  minPerEpochChurnLimitElectra: number; // Gwei
+  maxPerEpochActivationExitChurnLimit: number; // Gwei
+
+  // Deposits
+  maxPendingDepositsPerEpoch: number;
+
+  // Withdrawals
+  maxWithdrawalsPerPayload: number;
+  maxValidatorsPerWithdrawalsSweep: number;
+  minValidatorWithdrawabilityDelay: number; // Epochs
+
+  // Rewards
+  baseRewardFactor: number;
+  syncCommitteeSize: number;
+  epochsPerSyncCommitteePeriod: number;
+
+  // Penalties
+  minSlashingPenaltyQuotient: number;
+  proportionalSlashingMultiplier: number;
+  epochsPerSlashingsVector: number;
+  inactivityPenaltyQuotient: number;
+  inactivityScoreBias: number;
+  minEpochsToInactivityPenalty: number;
+
+  // Supply
+  totalEthSupply: number; // Starting ETH supply
+}
+
+/**
+ * Ethereum mainnet
+ */
+export const MAINNET_CONFIG: ChainConfig = {
+  name: 'mainnet',
+
+  secondsPerSlot: 12,
+  slotsPerEpoch: 32,
+  genesisTime: 1606824023,
+
+  denebForkEpoch: 269568,
+  electraForkEpoch: 364032,
+
+  effectiveBalanceIncrement: 1_000_000_000, // 1 ETH
+  minActivationBalance: 32_000_000_000, // 32 ETH
+  maxEffectiveBalance: 32_000_000_000, // 32 ETH
+  maxEffectiveBalanceElectra: 2048_000_000_000, // 2048 ETH
+
+  minPerEpochChurnLimit: 4,
+  churnLimitQuotient: 65536,
+  maxPerEpochActivationChurnLimit: 8,
+  minPerEpochChurnLimitElectra: 128_000_000_000, // 128 ETH
+  maxPerEpochActivationExitChurnLimit: 256_000_000_000, // 256 ETH
+
+  maxPendingDepositsPerEpoch: 16,
+
+  maxWithdrawalsPerPayload: 16,
+  maxValidatorsPerWithdrawalsSweep: 16384,
+  minValidatorWithdrawabilityDelay: 256, // ~27 hours
+
+  baseRewardFactor: 64,
+  syncCommitteeSize: 512,
+  epochsPerSyncCommitteePeriod: 256, // ~27 hours
+
+  minSlashingPenaltyQuotient: 4096,
+  proportionalSlashingMultiplier: 3,
+  epochsPerSlashingsVector: 8192,
+  inactivityPenaltyQuotient: 16_777_216, // 2^24
+  inactivityScoreBias: 4,
+  minEpochsToInactivityPenalty: 4,
+
+  totalEthSupply: 120_000_000, // ~120M ETH
+};
+
+/**
+ * Sepolia testnet
+ */
+export const SEPOLIA_CONFIG: ChainConfig = {
+  ...MAINNET_CONFIG,
+  name: 'sepolia',
+  genesisTime: 1655733600,
+  denebForkEpoch: 132608,
+  electraForkEpoch: 222464,
+  totalEthSupply: 3_500_000, // Approximate
+};
+
+/**
+ * Hoodi testnet
+ */
+export const HOODI_CONFIG: ChainConfig = {
+  ...MAINNET_CONFIG,
+  name: 'hoodi',
+  genesisTime: 1742213400,
+  denebForkEpoch: 0,
+  electraForkEpoch: 2048,
+  totalEthSupply: 1_000_000_000, // Approximate
+};
+
+/**
+ * Built-in presets by name
+ */
+export const CHAIN_PRESETS: Record<string, ChainConfig> = {
+  mainnet: MAINNET_CONFIG,
+  sepolia: SEPOLIA_CONFIG,
+  hoodi: HOODI_CONFIG,
+};
+
+/**
+ * Seconds per epoch
+ */
+export function getSecondsPerEpoch(config: ChainConfig = MAINNET_CONFIG): number {
+  return config.secondsPerSlot * config.slotsPerEpoch;
+}
+
+/**
+ * Epochs per day (~225 on mainnet)
+ */
+export function getEpochsPerDay(config: ChainConfig = MAINNET_CONFIG): number {
+  return (24 * 60 * 60) / getSecondsPerEpoch(config);
+}
+
+/**
+ * Epochs per year (~82,181 on mainnet)
+ */
+export function getEpochsPerYear(config: ChainConfig = MAINNET_CONFIG): number {
+  return getEpochsPerDay(config) * 365.25;
+}
+
+/**
+ * Validate and build a chain config from parsed JSON
+ *
+ * The JSON may name a built-in `preset` to start from (default: mainnet)
+ * and override any subset of fields. Unknown fields are rejected so typos
+ * in devnet configs do not silently fall back to mainnet values.
+ */
+export function parseChainConfig(json: unknown): ChainConfig {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('Invalid chain config: expected a JSON object');
+  }
+
+  const { preset = 'mainnet', ...overrides } = json as Record<string, unknown>;
+  if (typeof preset !== 'string' || !Object.hasOwn(CHAIN_PRESETS, preset)) {
+    throw new Error(`Invalid chain config: unknown preset "${String(preset)}"`);
+  }
+
+  const base = CHAIN_PRESETS[preset];
+  const config: ChainConfig = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!Object.hasOwn(base, key)) {
+      throw new Error(`Invalid chain config: unknown field "${key}"`);
+    }
+    if (key === 'name') {
+      if (typeof value !== 'string') {
+        throw new Error('Invalid chain config: "name" must be a string');
+      }
+      config.name = value;
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid chain config: "${key}" must be a non-negative number`);
+    }
+    (config as unknown as Record<string, number>)[key] = value;
+  }
+
+  if (config.secondsPerSlot <= 0 || config.slotsPerEpoch <= 0) {
+    throw new Error('Invalid chain config: slot and epoch lengths must be positive');
+  }
+  if (config.syncCommitteeSize <= 0 || config.epochsPerSyncCommitteePeriod <= 0) {
+    throw new Error('Invalid chain config: sync committee size and period must be positive');
+  }
+  if (config.maxWithdrawalsPerPayload <= 0 || config.maxValidatorsPerWithdrawalsSweep <= 0) {
+    throw new Error('Invalid chain config: withdrawal sweep limits must be positive');
+  }
+  if (config.electraForkEpoch < config.denebForkEpoch) {
+    throw new Error('Invalid chain config: electraForkEpoch precedes denebForkEpoch');
+  }
+
+  return config;
+}
+
+/**
+ * Load a chain config from a JSON file
+ * Accepts the raw JSON text or a File/Blob (e.g. from a file input)
+ */
+export async function loadChainConfig(source: string | Blob): Promise<ChainConfig> {
+  const text = typeof source === 'string' ? source : await source.text();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid chain config: ${error instanceof Error ? error.message : 'malformed JSON'}`
+    );
+  }
+
+  return parseChainConfig(json);
+}
@@ -0,0 +1,277 @@
+/**
+ * Exogenous Covariates
+ *
+ * Market series that move staking flows outside the yield itself: ETH
+ * price moves, DeFi borrow rates (the opportunity cost of staking) and the
+ * discount of liquid staking tokens to ETH. A least-squares trend model
+ * fits daily stake changes on these series, and scenarios set paths for
+ * them so the forecast adds the flow change each path implies relative to
+ * holding today's values.
+ */
+
+import { mean } from 'simple-statistics';
+import type { HistoricalDataPoint } from './forecast';
+
+/**
+ * Covariates the trend model understands
+ */
+export type CovariateName = 'ethPrice' | 'borrowRate' | 'lstDiscount';
+
+/**
+ * A value per covariate; covariates without data are absent
+ */
+export type CovariateValues = Partial<Record<CovariateName, number>>;
+
+/**
+ * Scheduled change in a covariate
+ * ETH price changes are relative (-0.4 = -40%); borrow rates and the LST
+ * discount change by percentage points. The change is spread evenly over
+ * the duration and then held.
+ */
+export interface CovariatePath {
+  covariate: CovariateName;
+  change: number;
+  durationDays: number;
+  startDay?: number; // Forecast day the move begins (default 1)
+}
+
+/**
+ * Fitted trend with covariates
+ * Regressors: ETH price as a daily % change, borrow rate and LST discount
+ * as levels in percentage points
+ */
+export interface CovariateTrendModel {
+  intercept: number; // ETH/day with every regressor at zero
+  coefficients: CovariateValues; // ETH/day per unit of each regressor
+  stdErrors: CovariateValues;
+  residualStd: number; // ETH/day
+  r2: number;
+  samples: number;
+}
+
+export const COVARIATE_NAMES: CovariateName[] = ['ethPrice', 'borrowRate', 'lstDiscount'];
+
+/**
+ * Minimum days with a covariate before it enters the fit
+ */
+export const MIN_COVARIATE_FIT_SAMPLES = 14;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function getCovariate(point: HistoricalDataPoint, name: CovariateName): number | undefined {
+  switch (name) {
+    case 'ethPrice':
+      return point.ethPriceUSD;
+    case 'borrowRate':
+      return point.borrowRate;
+    case 'lstDiscount':
+      return point.lstDiscount;
+  }
+}
+
+// Regressor for the step from prev to point: the price moves, rates and
+// discounts act through their level at the start of the step
+function getRegressor(
+  name: CovariateName,
+  prev: number,
+  current: number,
+  days: number
+): number {
+  return name === 'ethPrice' ? (100 * Math.log(current / prev)) / days : prev;
+}
+
+/**
+ * Invert a square matrix by Gauss-Jordan elimination with partial pivoting
+ * Returns undefined when the matrix is singular
+ */
+function invert(matrix: number[][]): number[][] | undefined {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return undefined;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const scale = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= scale;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Fit daily stake changes on the covariates present in the history
+ *
+ * Covariates with fewer than MIN_COVARIATE_FIT_SAMPLES observed steps are
+ * left out. Returns undefined when no covariate qualifies or the
+ * regressors are collinear.
+ */
+export function fitCovariateTrend(
+  history: HistoricalDataPoint[]
+): CovariateTrendModel | undefined {
+  const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const steps = sorted.slice(1).map((point, i) => ({
+    prev: sorted[i],
+    point,
+    days: (point.timestamp.getTime() - sorted[i].timestamp.getTime()) / MS_PER_DAY,
+  })).filter((step) => step.days > 0);
+
+  const observed = (name: CovariateName, step: (typeof steps)[number]) => {
+    const prev = getCovariate(step.prev, name);
+    const current = getCovariate(step.point, name);
+    return prev !== undefined && current !== undefined && (name !== 'ethPrice' || prev > 0);
+  };
+  const names = COVARIATE_NAMES.filter(
+    (name) => steps.filter((step) => observed(name, step)).length >= MIN_COVARIATE_FIT_SAMPLES
+  );
+  if (names.length === 0) return undefined;
+
+  const rows = steps.filter((step) => names.every((name) => observed(name, step)));
+  if (rows.length < Math.max(MIN_COVARIATE_FIT_SAMPLES, names.length + 2)) return undefined;
+
+  const x = rows.map((step) => [
+    1,
+    ...names.map((name) =>
+      getRegressor(
+        name,
+        getCovariate(step.prev, name) ?? 0,
+        getCovariate(step.point, name) ?? 0,
+        step.days
+      )
+    ),
+  ]);
+  const y = rows.map((step) => (step.point.totalStakedETH - step.prev.totalStakedETH) / step.days);
+
+  // Normal equations: beta = (X'X)^-1 X'y
+  const k = names.length + 1;
+  const xtx = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => x.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const xty = Array.from({ length: k }, (_, i) =>
+    x.reduce((sum, row, r) => sum + row[i] * y[r], 0)
+  );
+  const inverse = invert(xtx);
+  if (!inverse) return undefined;
+
+  const beta = inverse.map((row) => row.reduce((sum, v, j) => sum + v * xty[j], 0));
+  const residuals = y.map((yi, r) => yi - x[r].reduce((sum, v, j) => sum + v * beta[j], 0));
+  const sse = residuals.reduce((sum, e) => sum + e * e, 0);
+  const yMean = mean(y);
+  const sst = y.reduce((sum, yi) => sum + (yi - yMean) ** 2, 0);
+  const residualVariance = sse / (rows.length - k);
+
+  const coefficients: CovariateValues = {};
+  const stdErrors: CovariateValues = {};
+  names.forEach((name, i) => {
+    coefficients[name] = beta[i + 1];
+    stdErrors[name] = Math.sqrt(Math.max(0, residualVariance * inverse[i + 1][i + 1]));
+  });
+
+  return {
+    intercept: beta[0],
+    coefficients,
+    stdErrors,
+    residualStd: Math.sqrt(residualVariance),
+    r2: sst > 0 ? 1 - sse / sst : 0,
+    samples: rows.length,
+  };
+}
+
+/**
+ * Most recent value of each covariate in the history
+ */
+export function getLatestCovariates(history: HistoricalDataPoint[]): CovariateValues {
+  const sorted = [...history].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const latest: CovariateValues = {};
+  for (const name of COVARIATE_NAMES) {
+    const value = sorted.map((point) => getCovariate(point, name)).find((v) => v !== undefined);
+    if (value !== undefined) latest[name] = value;
+  }
+  return latest;
+}
+
+/**
+ * Covariate values on a forecast day (0 = today) after the scenario's paths
+ * Only covariates with a current value are projected
+ */
+export function projectCovariates(
+  latest: CovariateValues,
+  paths: CovariatePath[] | undefined,
+  day: number
+): CovariateValues {
+  const projected: CovariateValues = { ...latest };
+
+  for (const path of paths ?? []) {
+    const value = projected[path.covariate];
+    if (value === undefined) continue;
+    if (path.durationDays <= 0) {
+      throw new Error(`Covariate path for ${path.covariate} must last at least one day`);
+    }
+
+    const startDay = path.startDay ?? 1;
+    const progress = Math.min(1, Math.max(0, (day - startDay + 1) / path.durationDays));
+    projected[path.covariate] = path.covariate === 'ethPrice'
+      ? value * Math.pow(Math.max(0, 1 + path.change), progress)
+      : value + path.change * progress;
+  }
+
+  return projected;
+}
+
+/**
+ * Change in daily stake flow (ETH/day) on a forecast day relative to
+ * covariates held at today's values
+ */
+export function getCovariateFlowEffect(
+  model: CovariateTrendModel | undefined,
+  latest: CovariateValues,
+  paths: CovariatePath[] | undefined,
+  day: number
+): number {
+  if (!model || !paths || paths.length === 0) return 0;
+
+  const today = projectCovariates(latest, paths, day);
+  const yesterday = projectCovariates(latest, paths, day - 1);
+
+  let effect = 0;
+  for (const name of COVARIATE_NAMES) {
+    const coefficient = model.coefficients[name];
+    const current = today[name];
+    const prev = yesterday[name];
+    const base = latest[name];
+    if (
+      coefficient === undefined ||
+      current === undefined ||
+      prev === undefined ||
+      base === undefined
+    ) {
+      continue;
+    }
+
+    // Held flat, prices do not move and levels stay at today's values
+    effect += name === 'ethPrice'
+      ? coefficient * (prev > 0 && current > 0 ? getRegressor(name, prev, current, 1) : 0)
+      : coefficient * (getRegressor(name, prev, current, 1) - base);
+  }
+  return effect;
+}
+
+/**
+ * ETH price move spread over a number of days, e.g. -0.4 over 90 days
+ */
+export function createETHPriceMove(
+  change: number,
+  durationDays: number,
+  startDay: number = 1
+): CovariatePath {
+  return { covariate: 'ethPrice', change, durationDays, startDay };
+}
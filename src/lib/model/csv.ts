@@ -0,0 +1,80 @@
+/**
+ * CSV Reading
+ *
+ * Minimal RFC 4180 reader for the local data dumps the models import:
+ * quoted fields may contain commas, doubled quotes and line breaks.
+ */
+
+/**
+ * One data row keyed by header column
+ */
+export interface CSVRecord {
+  line: number; // 1-based file line the row starts on
+  values: Record<string, string>;
+}
+
+/**
+ * Split CSV text into rows of trimmed cells, with each row's starting line
+ * Blank rows are skipped.
+ */
+function splitRows(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell.trim());
+    if (cells.some((c) => c !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Invalid CSV: unterminated quote in the row starting on line ${rowLine}`);
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column
+ */
+export function parseCSVRecords(text: string): CSVRecord[] {
+  const [header, ...rows] = splitRows(text);
+  if (!header) return [];
+
+  return rows.map(({ line, cells }) => ({
+    line,
+    values: Object.fromEntries(header.cells.map((column, c) => [column, cells[c] ?? ''])),
+  }));
+}
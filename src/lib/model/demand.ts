@@ -0,0 +1,377 @@
+/**
+ * Staking Demand Model
+ *
+ * ETH holders each have a reservation yield: the total APR they need
+ * before they stake. Reservation yields are spread normally around a
+ * median set relative to a reference rate, so at a given stake ratio the
+ * marginal holder requires reference + median + std x probit(stake ratio).
+ * Net flow into the queues is proportional to how far the APR sits above
+ * that marginal requirement; the elasticity and median are fitted from
+ * history by least squares over weekly windows, with standard errors, and
+ * only a significant fit replaces the prior, with its elasticity shrunk
+ * toward the prior's.
+ */
+
+import { mean, probit, sampleCorrelation } from 'simple-statistics';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import { type ReservationYieldCurve } from './equilibrium';
+import { getRealisticAPR, getStakeRatio } from './protocol';
+import type { HistoricalDataPoint } from './forecast';
+
+/**
+ * Staking demand as a function of yield
+ */
+export interface DemandModel {
+  source: 'fitted' | 'prior'; // Prior when the history could not identify the curve
+  referenceRate: number; // Benchmark yield stakers compare against (%)
+  elasticity: number; // Net flow (ETH/day) per percentage point above the marginal reservation yield
+  elasticityStdErr: number;
+  medianReservationSpread: number; // Median reservation yield over the reference rate (pp)
+  medianReservationSpreadStdErr: number;
+  reservationYieldStd: number; // Spread of reservation yields across holders (pp)
+  residualStd: number; // Flow not explained by yield (ETH/day)
+  residuals: number[]; // Fit residuals per window, oldest first (ETH/day)
+  windowDays: number; // Days each residual averages over
+  r2: number;
+  samples: number;
+}
+
+/**
+ * Demand fit settings
+ */
+export interface DemandFitOptions {
+  referenceRate?: number; // Default: DEFAULT_REFERENCE_RATE
+  reservationYieldStd?: number; // Default: DEFAULT_RESERVATION_YIELD_STD
+}
+
+/**
+ * Benchmark yield (%) when none is given, e.g. a dollar money-market rate
+ */
+export const DEFAULT_REFERENCE_RATE = 4.0;
+
+/**
+ * Spread of reservation yields across holders (pp) when none is given
+ */
+export const DEFAULT_RESERVATION_YIELD_STD = 1.0;
+
+/**
+ * Days of flow averaged into each fit observation, and of queue readings
+ * averaged into each smoothed queue length
+ */
+export const DEMAND_FIT_WINDOW_DAYS = 7;
+
+/**
+ * Minimum windows needed for a fit
+ */
+export const MIN_DEMAND_FIT_SAMPLES = 8;
+
+/**
+ * Elasticity t-statistic a fit needs before calibrateDemand uses it
+ */
+export const MIN_ELASTICITY_T_STAT = 2;
+
+/**
+ * Share of flow variance a fit must explain before calibrateDemand uses it
+ */
+export const MIN_DEMAND_FIT_R2 = 0.1;
+
+/**
+ * Largest flow a calibrated curve may imply at the observed gaps, as a
+ * multiple of the largest observed window flow
+ */
+export const MAX_IMPLIED_FLOW_RATIO = 2;
+
+// Weak prior used when history cannot identify the curve: the median
+// holder stakes at the reference rate and flows respond by this much
+const PRIOR_ELASTICITY = 5_000; // ETH/day per pp
+const PRIOR_ELASTICITY_STD_ERR = 2_500; // Two standard errors from zero, like the weakest accepted fit
+const PRIOR_SPREAD_STD_ERR = 1.0; // pp
+
+// Without an observed APR the gap follows stake and moves only a few
+// hundredths of a pp over months; any slope on that is noise
+const MIN_GAP_VARIANCE = 0.1 ** 2; // pp^2
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Keep probit finite at the ends of the stake ratio range
+function clampShare(share: number): number {
+  return Math.min(0.999, Math.max(0.001, share));
+}
+
+/**
+ * Reservation yield (%) of the marginal holder at a stake ratio (%)
+ */
+export function getReservationYieldCurve(model: DemandModel): ReservationYieldCurve {
+  return (stakeRatio: number) =>
+    model.referenceRate +
+    model.medianReservationSpread +
+    model.reservationYieldStd * probit(clampShare(stakeRatio / 100));
+}
+
+/**
+ * Expected net flow into staking (ETH/day) at a total APR and stake ratio
+ * Positive flows join the entry queue, negative flows the exit queue
+ */
+export function getNetFlowDemand(
+  model: DemandModel,
+  totalAPR: number,
+  stakeRatio: number
+): number {
+  return model.elasticity * (totalAPR - getReservationYieldCurve(model)(stakeRatio));
+}
+
+/**
+ * The prior demand model
+ */
+export function getPriorDemandModel(options: DemandFitOptions = {}): DemandModel {
+  return {
+    source: 'prior',
+    referenceRate: options.referenceRate ?? DEFAULT_REFERENCE_RATE,
+    elasticity: PRIOR_ELASTICITY,
+    elasticityStdErr: PRIOR_ELASTICITY_STD_ERR,
+    medianReservationSpread: 0,
+    medianReservationSpreadStdErr: PRIOR_SPREAD_STD_ERR,
+    reservationYieldStd: options.reservationYieldStd ?? DEFAULT_RESERVATION_YIELD_STD,
+    residualStd: 0,
+    residuals: [],
+    windowDays: DEMAND_FIT_WINDOW_DAYS,
+    r2: 0,
+    samples: 0,
+  };
+}
+
+/**
+ * A least-squares fit with the windows behind it
+ */
+interface DemandFit {
+  model: DemandModel;
+  gaps: number[]; // Mean APR gap per window, median spread excluded (pp)
+  flows: number[]; // Arrivals per window (ETH/day)
+}
+
+/**
+ * Least-squares demand fit, or undefined when the history has too few
+ * windows or too little yield variation to identify it
+ *
+ * Demand over a window is the stake change plus the change in the entry
+ * queue minus the change in the exit queue, so queue-limited days still
+ * count the full flow that arrived, averaged per day. Queue lengths are
+ * smoothed by a trailing window mean first, as daily readings are noisy.
+ * The APR gap to the marginal holder's reservation yield (median spread
+ * excluded) is averaged over the window's days; days without an observed
+ * APR use the protocol's expected APR at that day's stake. The regression
+ * slope is the elasticity, with its ordinary least-squares standard error.
+ */
+function fitDemandCurve(
+  history: HistoricalDataPoint[],
+  options: DemandFitOptions,
+  config: ChainConfig
+): DemandFit | undefined {
+  const referenceRate = options.referenceRate ?? DEFAULT_REFERENCE_RATE;
+  const reservationYieldStd = options.reservationYieldStd ?? DEFAULT_RESERVATION_YIELD_STD;
+  if (reservationYieldStd < 0) {
+    throw new Error('Reservation yield spread must be non-negative');
+  }
+
+  const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const validatorBalanceETH = config.maxEffectiveBalance / 1e9;
+  // Net queued ETH (entry minus exit), smoothed over the trailing window
+  const queuedETH = sorted.map((point) =>
+    (point.pendingDepositsETH ?? point.entryQueueLength * validatorBalanceETH) -
+    point.exitQueueLength * validatorBalanceETH
+  );
+  const smoothedQueuedETH = sorted.map((point, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = i; j >= 0; j--) {
+      const age = (point.timestamp.getTime() - sorted[j].timestamp.getTime()) / MS_PER_DAY;
+      if (age >= DEMAND_FIT_WINDOW_DAYS) break;
+      sum += queuedETH[j];
+      count++;
+    }
+    return sum / count;
+  });
+
+  const gap = (point: HistoricalDataPoint) => {
+    const apr = point.observedAPR ?? getRealisticAPR(
+      point.totalStakedETH,
+      point.networkParticipation,
+      undefined,
+      undefined,
+      config
+    );
+    const stakeRatio = getStakeRatio(
+      point.totalStakedETH,
+      point.totalSupply ?? config.totalEthSupply
+    );
+    return apr - referenceRate - reservationYieldStd * probit(clampShare(stakeRatio / 100));
+  };
+
+  const x: number[] = [];
+  const y: number[] = [];
+  let windowStart = 0;
+  let gaps: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const start = sorted[windowStart];
+    const point = sorted[i];
+    gaps.push(gap(sorted[i - 1]));
+
+    const days = (point.timestamp.getTime() - start.timestamp.getTime()) / MS_PER_DAY;
+    if (days < DEMAND_FIT_WINDOW_DAYS) continue;
+
+    const arrivedETH =
+      point.totalStakedETH - start.totalStakedETH +
+      smoothedQueuedETH[i] - smoothedQueuedETH[windowStart];
+    x.push(mean(gaps));
+    y.push(arrivedETH / days);
+    windowStart = i;
+    gaps = [];
+  }
+
+  const n = x.length;
+  if (n < MIN_DEMAND_FIT_SAMPLES) return undefined;
+
+  const xMean = mean(x);
+  const yMean = mean(y);
+  const sxx = x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0);
+  if (sxx / n < MIN_GAP_VARIANCE) return undefined;
+
+  const slope = x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0) / sxx;
+  const correlation = sampleCorrelation(x, y);
+
+  return {
+    model: {
+      source: 'fitted',
+      referenceRate,
+      reservationYieldStd,
+      windowDays: DEMAND_FIT_WINDOW_DAYS,
+      r2: Number.isFinite(correlation) ? correlation * correlation : 0,
+      samples: n,
+      ...getDemandCurveThrough(x, y, slope, getResidualVariance(x, y, slope) / sxx),
+    },
+    gaps: x,
+    flows: y,
+  };
+}
+
+// Residual variance of windows around a line of this slope through their means
+function getResidualVariance(gaps: number[], flows: number[], elasticity: number): number {
+  const gapMean = mean(gaps);
+  const flowMean = mean(flows);
+  return flows.reduce(
+    (sum, flow, i) => sum + (flow - flowMean - elasticity * (gaps[i] - gapMean)) ** 2,
+    0
+  ) / (flows.length - 2);
+}
+
+/**
+ * Demand curve with a given elasticity through the windows' mean gap and
+ * flow, with its residuals and standard errors
+ *
+ * Flow = elasticity * (gap - median spread), so the median spread is the
+ * mean gap less mean flow / elasticity; its standard error follows by the
+ * delta method (the mean flow and a least-squares slope are uncorrelated).
+ */
+function getDemandCurveThrough(
+  gaps: number[],
+  flows: number[],
+  elasticity: number,
+  elasticityVariance: number
+): Pick<
+  DemandModel,
+  | 'elasticity'
+  | 'elasticityStdErr'
+  | 'medianReservationSpread'
+  | 'medianReservationSpreadStdErr'
+  | 'residualStd'
+  | 'residuals'
+> {
+  const n = flows.length;
+  const gapMean = mean(gaps);
+  const flowMean = mean(flows);
+  const variance = getResidualVariance(gaps, flows, elasticity);
+  const spreadVariance = elasticity !== 0
+    ? variance / n / elasticity ** 2 + (flowMean ** 2 * elasticityVariance) / elasticity ** 4
+    : Infinity;
+
+  return {
+    elasticity,
+    elasticityStdErr: Math.sqrt(elasticityVariance),
+    medianReservationSpread: elasticity !== 0 ? gapMean - flowMean / elasticity : 0,
+    medianReservationSpreadStdErr: Math.sqrt(spreadVariance),
+    residualStd: Math.sqrt(variance),
+    residuals: flows.map((flow, i) => flow - flowMean - elasticity * (gaps[i] - gapMean)),
+  };
+}
+
+/**
+ * Pull a fit's elasticity toward the prior's, weighting each by the inverse
+ * of its variance
+ * Gaps that barely moved leave a large standard error, so such fits stay
+ * close to the prior. The median spread is refitted so the curve still
+ * passes through the mean observed flow.
+ */
+function shrinkToPrior(fit: DemandFit, prior: DemandModel): DemandModel {
+  const fitVariance = fit.model.elasticityStdErr ** 2;
+  const priorVariance = prior.elasticityStdErr ** 2;
+  const priorWeight = fitVariance / (fitVariance + priorVariance);
+
+  return {
+    ...fit.model,
+    ...getDemandCurveThrough(
+      fit.gaps,
+      fit.flows,
+      fit.model.elasticity + priorWeight * (prior.elasticity - fit.model.elasticity),
+      fitVariance * priorVariance / (fitVariance + priorVariance)
+    ),
+  };
+}
+
+/**
+ * Fit the demand curve to history
+ */
+export function fitDemandModel(
+  history: HistoricalDataPoint[],
+  options: DemandFitOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): DemandModel {
+  const fit = fitDemandCurve(history, options, config);
+  if (!fit) {
+    throw new Error(
+      `Need at least ${MIN_DEMAND_FIT_SAMPLES * DEMAND_FIT_WINDOW_DAYS} days of history with varying yield to fit demand`
+    );
+  }
+  return fit.model;
+}
+
+/**
+ * Fitted demand model shrunk toward the prior, or the prior itself
+ *
+ * The prior stands in when the history is too short, has too little yield
+ * variation, shows no significant positive response to yield (elasticity
+ * t-statistic below MIN_ELASTICITY_T_STAT or r2 below MIN_DEMAND_FIT_R2),
+ * or when the shrunk curve implies flows at the observed gaps beyond
+ * MAX_IMPLIED_FLOW_RATIO times the largest observed flow.
+ */
+export function calibrateDemand(
+  history: HistoricalDataPoint[],
+  options: DemandFitOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): DemandModel {
+  const prior = getPriorDemandModel(options);
+  const fit = fitDemandCurve(history, options, config);
+  if (
+    !fit ||
+    fit.model.elasticity <= 0 ||
+    fit.model.elasticity < MIN_ELASTICITY_T_STAT * fit.model.elasticityStdErr ||
+    fit.model.r2 < MIN_DEMAND_FIT_R2
+  ) {
+    return prior;
+  }
+
+  const model = shrinkToPrior(fit, prior);
+  const largestImpliedFlow = Math.max(
+    ...fit.gaps.map((gap) => Math.abs(model.elasticity * (gap - model.medianReservationSpread)))
+  );
+  const largestObservedFlow = Math.max(...fit.flows.map(Math.abs));
+  return largestImpliedFlow > MAX_IMPLIED_FLOW_RATIO * largestObservedFlow ? prior : model;
+}
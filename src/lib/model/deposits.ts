@@ -0,0 +1,90 @@
+/**
+ * Pending Deposits Model
+ *
+ * Since Electra (EIP-6110) deposits are read directly from execution
+ * blocks and wait in a pending-deposits queue measured in ETH. Each epoch
+ * the queue is drained up to the activation churn, and never by more than
+ * MAX_PENDING_DEPOSITS_PER_EPOCH individual deposits. Before Electra the
+ * entry queue was counted in 32 ETH validators against the validator churn.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerDay } from './config';
+import { type Fork, getChurnLimits } from './churn';
+
+/**
+ * Pending-deposit queue after one forecast step
+ */
+export interface DepositQueueStep {
+  pendingETH: number; // Still waiting at the end of the step
+  arrivalsETH: number; // New deposits during the step
+  processedETH: number; // Deposits credited to validators during the step
+  waitDays: number; // Wait for a deposit joining the back of the queue
+}
+
+// Full 32 ETH deposits; top-ups and 0x02 deposits can be smaller or larger
+const DEFAULT_AVERAGE_DEPOSIT_ETH = 32;
+
+/**
+ * Maximum ETH the pending-deposit queue can process per day
+ */
+export function getDepositProcessingLimit(
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  averageDepositETH: number = DEFAULT_AVERAGE_DEPOSIT_ETH,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const churn = getChurnLimits(totalActiveBalanceETH, fork, config);
+  const perEpoch = fork === 'electra'
+    ? Math.min(churn.activation, config.maxPendingDepositsPerEpoch * averageDepositETH)
+    : churn.activation;
+  return perEpoch * getEpochsPerDay(config);
+}
+
+/**
+ * Days until a deposit joining the queue now is processed
+ */
+export function getDepositQueueWaitDays(
+  pendingETH: number,
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  averageDepositETH: number = DEFAULT_AVERAGE_DEPOSIT_ETH,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const dailyLimit = getDepositProcessingLimit(
+    totalActiveBalanceETH,
+    fork,
+    averageDepositETH,
+    config
+  );
+  return dailyLimit > 0 ? pendingETH / dailyLimit : 0;
+}
+
+/**
+ * Advance the pending-deposit queue by one day
+ * Arrivals join the back of the queue and are processed in order
+ */
+export function stepDepositQueue(
+  pendingETH: number,
+  arrivalsETH: number,
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  averageDepositETH: number = DEFAULT_AVERAGE_DEPOSIT_ETH,
+  config: ChainConfig = MAINNET_CONFIG
+): DepositQueueStep {
+  const dailyLimit = getDepositProcessingLimit(
+    totalActiveBalanceETH,
+    fork,
+    averageDepositETH,
+    config
+  );
+  const queuedETH = pendingETH + Math.max(0, arrivalsETH);
+  const processedETH = Math.min(queuedETH, dailyLimit);
+  const remainingETH = queuedETH - processedETH;
+
+  return {
+    pendingETH: remainingETH,
+    arrivalsETH: Math.max(0, arrivalsETH),
+    processedETH,
+    waitDays: dailyLimit > 0 ? remainingETH / dailyLimit : 0,
+  };
+}
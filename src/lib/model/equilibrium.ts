@@ -0,0 +1,159 @@
+/**
+ * Staking Equilibrium Model
+ *
+ * Solves for the "gravity point": the stake level at which consensus APR
+ * plus expected execution APR equals the yield stakers require. Execution
+ * revenue is a network-wide pool, so its APR falls as stake grows.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerDay } from './config';
+import { type Fork, getChurnLimits } from './churn';
+import { getConsensusRewards } from './rewards';
+import { type IssuanceCurve, applyIssuanceCurve, CURRENT_ISSUANCE_CURVE } from './issuance';
+
+/**
+ * Market equilibrium yield assumption (total APR %)
+ */
+export const DEFAULT_TARGET_YIELD = 4.0;
+
+/**
+ * Required total APR (%) as a function of stake ratio (%)
+ * Rising curves model stakers with progressively higher reservation yields
+ */
+export type ReservationYieldCurve = (stakeRatio: number) => number;
+
+/**
+ * Network conditions the equilibrium is solved under
+ */
+export interface EquilibriumInputs {
+  executionRevenuePerDayETH: number; // Priority fees + MEV paid to all stakers per day
+  networkParticipation?: number;
+  totalSupply?: number; // Defaults to the config's starting supply
+  fork?: Fork;
+  issuanceCurve?: IssuanceCurve; // Defaults to today's reward curve
+}
+
+/**
+ * Equilibrium solution
+ */
+export interface EquilibriumResult {
+  stakeETH: number;
+  stakeRatio: number;
+  consensusAPR: number;
+  executionAPR: number;
+  totalAPR: number;
+  daysToReach: number; // Churn-limited days from the current stake
+}
+
+const SOLVER_ITERATIONS = 60;
+const MIN_STAKE_ETH = 100_000;
+const MAX_TRANSITION_DAYS = 365 * 10;
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Expected execution APR when a daily revenue pool is shared by all stake
+ */
+export function getExpectedExecutionAPR(
+  totalStakedETH: number,
+  executionRevenuePerDayETH: number
+): number {
+  if (totalStakedETH <= 0) return 0;
+  return (executionRevenuePerDayETH * DAYS_PER_YEAR / totalStakedETH) * 100;
+}
+
+/**
+ * Total expected APR (consensus + execution) at a stake level
+ */
+export function getTotalExpectedAPR(
+  totalStakedETH: number,
+  inputs: EquilibriumInputs,
+  config: ChainConfig = MAINNET_CONFIG
+): { consensusAPR: number; executionAPR: number; totalAPR: number } {
+  const consensusAPR = applyIssuanceCurve(
+    getConsensusRewards(totalStakedETH, inputs.networkParticipation ?? 1, config),
+    totalStakedETH,
+    inputs.issuanceCurve ?? CURRENT_ISSUANCE_CURVE,
+    config
+  ).total;
+  const executionAPR = getExpectedExecutionAPR(
+    totalStakedETH,
+    inputs.executionRevenuePerDayETH
+  );
+  return { consensusAPR, executionAPR, totalAPR: consensusAPR + executionAPR };
+}
+
+/**
+ * Days needed to move from one stake level to another at churn speed
+ * Steps day by day because churn itself scales with stake
+ */
+export function getDaysToReachStake(
+  fromStakeETH: number,
+  toStakeETH: number,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const epochsPerDay = getEpochsPerDay(config);
+  let stake = fromStakeETH;
+  let days = 0;
+
+  while (Math.abs(toStakeETH - stake) > 1 && days < MAX_TRANSITION_DAYS) {
+    const churn = getChurnLimits(stake, fork, config);
+    const remaining = toStakeETH - stake;
+    const dailyLimit = (remaining > 0 ? churn.activation : churn.exit) * epochsPerDay;
+
+    if (Math.abs(remaining) <= dailyLimit) {
+      return days + Math.abs(remaining) / dailyLimit;
+    }
+
+    stake += Math.sign(remaining) * dailyLimit;
+    days++;
+  }
+
+  return days;
+}
+
+/**
+ * Solve for the stake where total expected APR meets the target yield
+ * Bisection on stake: total APR falls monotonically as stake rises
+ */
+export function solveEquilibrium(
+  target: number | ReservationYieldCurve,
+  currentStakeETH: number,
+  inputs: EquilibriumInputs,
+  config: ChainConfig = MAINNET_CONFIG
+): EquilibriumResult {
+  const totalSupply = inputs.totalSupply ?? config.totalEthSupply;
+  const requiredYield = (stakeETH: number) =>
+    typeof target === 'number' ? target : target((stakeETH / totalSupply) * 100);
+  const excessYield = (stakeETH: number) =>
+    getTotalExpectedAPR(stakeETH, inputs, config).totalAPR - requiredYield(stakeETH);
+
+  let low = MIN_STAKE_ETH;
+  let high = totalSupply;
+  let stakeETH: number;
+
+  if (excessYield(low) <= 0) {
+    stakeETH = low;
+  } else if (excessYield(high) >= 0) {
+    stakeETH = high;
+  } else {
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      if (excessYield(mid) > 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    stakeETH = (low + high) / 2;
+  }
+
+  const apr = getTotalExpectedAPR(stakeETH, inputs, config);
+
+  return {
+    stakeETH,
+    stakeRatio: (stakeETH / totalSupply) * 100,
+    ...apr,
+    daysToReach: getDaysToReachStake(currentStakeETH, stakeETH, inputs.fork, config),
+  };
+}
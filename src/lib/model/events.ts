@@ -0,0 +1,169 @@
+/**
+ * Forecast Event Schedule
+ *
+ * Discrete shocks applied on specific forecast days: forced fee regimes,
+ * bursts of exit or deposit demand, sentiment shifts and participation
+ * drops. Exit and deposit demand join the queues rather than moving stake
+ * directly, so the forecast shows how churn absorbs each shock.
+ */
+
+import {
+  type FeeRegime,
+  type RegimeParameters,
+  type RegimeTransitions,
+  FEE_REGIMES,
+} from './execution';
+
+/**
+ * A shock applied from a forecast day
+ */
+export interface ForecastEvent {
+  name: string;
+  day: number; // Forecast day the event starts (1 = first forecast day)
+  durationDays?: number; // Days the regime, flow and participation effects last (default 1)
+  feeRegime?: FeeRegime; // Fee regime forced while the event lasts
+  exitDemandETH?: number; // Exits requested on the start day
+  depositDemandETH?: number; // Deposits made on the start day
+  netFlowBias?: number; // Added to the scenario's demand bias while the event lasts
+  executionMultiplier?: number; // Multiplier on execution yield while the event lasts
+  networkParticipation?: number; // Attestation participation while the event lasts (0-1)
+}
+
+/**
+ * Combined effect of the events active on one day
+ */
+export interface EventAdjustments {
+  active: string[]; // Names of the events in force
+  feeRegime?: FeeRegime; // Hottest forced regime
+  exitDemandETH: number;
+  depositDemandETH: number;
+  netFlowBias: number;
+  executionMultiplier: number;
+  networkParticipation?: number; // Lowest forced participation
+}
+
+/**
+ * Market crash: a hot fee regime while positions unwind, and a wave of exits
+ */
+export function createMarketCrashEvent(
+  day: number,
+  exitDemandETH: number = 500_000,
+  hotDays: number = 10
+): ForecastEvent {
+  return {
+    name: 'Market crash',
+    day,
+    durationDays: hotDays,
+    feeRegime: 'hot',
+    exitDemandETH,
+    netFlowBias: -0.5,
+  };
+}
+
+/**
+ * Liquid staking token depeg: arbitrageurs redeem through the exit queue
+ * and new deposits stall until the peg recovers
+ */
+export function createLSTDepegEvent(
+  day: number,
+  redemptionETH: number = 300_000,
+  durationDays: number = 30
+): ForecastEvent {
+  return {
+    name: 'LST depeg',
+    day,
+    durationDays,
+    exitDemandETH: redemptionETH,
+    netFlowBias: -1,
+  };
+}
+
+/**
+ * A large holder (e.g. an exchange) unstakes in one go
+ */
+export function createLargeUnstakeEvent(
+  day: number,
+  amountETH: number = 1_000_000,
+  name: string = 'Large exchange unstake'
+): ForecastEvent {
+  return { name, day, exitDemandETH: amountETH };
+}
+
+/**
+ * Whether an event is in force on a forecast day
+ */
+export function isEventActive(event: ForecastEvent, day: number): boolean {
+  return day >= event.day && day < event.day + (event.durationDays ?? 1);
+}
+
+/**
+ * Combine the events in force on a forecast day
+ * One-off exit and deposit demand only counts on each event's start day.
+ */
+export function getEventAdjustments(
+  events: ForecastEvent[] | undefined,
+  day: number
+): EventAdjustments {
+  const adjustments: EventAdjustments = {
+    active: [],
+    exitDemandETH: 0,
+    depositDemandETH: 0,
+    netFlowBias: 0,
+    executionMultiplier: 1,
+  };
+
+  for (const event of events ?? []) {
+    if (!isEventActive(event, day)) continue;
+
+    adjustments.active.push(event.name);
+    if (day === event.day) {
+      adjustments.exitDemandETH += event.exitDemandETH ?? 0;
+      adjustments.depositDemandETH += event.depositDemandETH ?? 0;
+    }
+    adjustments.netFlowBias += event.netFlowBias ?? 0;
+    adjustments.executionMultiplier *= event.executionMultiplier ?? 1;
+
+    if (
+      event.feeRegime &&
+      (!adjustments.feeRegime ||
+        FEE_REGIMES.indexOf(event.feeRegime) > FEE_REGIMES.indexOf(adjustments.feeRegime))
+    ) {
+      adjustments.feeRegime = event.feeRegime;
+    }
+    if (event.networkParticipation !== undefined) {
+      adjustments.networkParticipation = Math.min(
+        adjustments.networkParticipation ?? 1,
+        event.networkParticipation
+      );
+    }
+  }
+
+  return adjustments;
+}
+
+/**
+ * Regime parameters that stay in one regime
+ */
+export function pinRegime(params: RegimeParameters, regime: FeeRegime): RegimeParameters {
+  const row: RegimeTransitions = {
+    toCalm: regime === 'calm' ? 1 : 0,
+    toElevated: regime === 'elevated' ? 1 : 0,
+    toHot: regime === 'hot' ? 1 : 0,
+  };
+  return {
+    ...params,
+    transitionMatrix: { calm: row, elevated: row, hot: row },
+  };
+}
+
+/**
+ * Forecast days where an event starts or the day after one ends
+ */
+export function getEventBoundaryDays(events: ForecastEvent[] | undefined): Set<number> {
+  const days = new Set<number>();
+  for (const event of events ?? []) {
+    days.add(event.day);
+    days.add(event.day + (event.durationDays ?? 1));
+  }
+  return days;
+}
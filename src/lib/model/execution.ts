@@ -3,16 +3,103 @@
  *
  * Models priority fees + MEV using regime detection (calm/hot)
  * with mean reversion. This is the "execution yield" component
- * that adds to consensus layer APR.
+ * that adds to consensus layer APR. Regimes are the hidden states of a
+ * Markov model over log daily yield; see calibration.ts for fitting it.
  */
 
-import { mean, standardDeviation } from 'simple-statistics';
+import { mean } from 'simple-statistics';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+
+// Yields are quoted per 32 ETH of stake so they stay comparable as
+// consolidations shrink the validator count
+function getStakeUnitETH(config: ChainConfig): number {
+  return config.minActivationBalance / 1e9;
+}
 
 /**
  * Fee regime states
  */
 export type FeeRegime = 'calm' | 'elevated' | 'hot';
 
+/**
+ * Regimes ordered from lowest to highest execution yield
+ */
+export const FEE_REGIMES: FeeRegime[] = ['calm', 'elevated', 'hot'];
+
+/**
+ * Probability of being in each regime (sums to 1)
+ */
+export type RegimeProbabilities = Record<FeeRegime, number>;
+
+/**
+ * Daily transition probabilities out of a regime
+ */
+export interface RegimeTransitions {
+  toCalm: number;
+  toElevated: number;
+  toHot: number;
+}
+
+/**
+ * Yield boundaries between regimes (daily yield per 32 ETH staked)
+ */
+export interface RegimeThresholds {
+  calm: { max: number };
+  elevated: { min: number; max: number };
+  hot: { min: number };
+}
+
+/**
+ * Regime-dependent mean reversion target and half-life (days)
+ */
+export type RegimeMeanReversion = Record<FeeRegime, { target: number; halfLife: number }>;
+
+/**
+ * Separate models for the two execution revenue streams
+ * Priority fees follow gas prices; MEV has its own regime targets and
+ * reverts faster after volatility spikes
+ */
+export interface ExecutionComponentModel {
+  gasPrice: RegimeMeanReversion; // Gwei
+  priorityFeeScale: number; // Priority fee yield at 1 Gwei (ETH/day per 32 ETH)
+  priorityFeeGasElasticity: number; // % change in fees per % change in gas price
+  mev: RegimeMeanReversion; // ETH/day per 32 ETH
+  gasPriceLogStd: number; // Day-to-day log noise around the regime target
+  mevLogStd: number;
+}
+
+/**
+ * Daily execution series, oldest day first
+ */
+export interface ExecutionComponentSeries {
+  gasPrice: number[]; // Gwei
+  priorityFeeYield: number[]; // ETH/day per 32 ETH
+  mevYield: number[]; // ETH/day per 32 ETH
+}
+
+/**
+ * Fee regime model parameters, hand-calibrated or fitted with fitRegimeModel
+ */
+export interface RegimeParameters {
+  thresholds: RegimeThresholds;
+  transitionMatrix: Record<FeeRegime, RegimeTransitions>;
+  meanReversion: RegimeMeanReversion; // Total yield in ETH/day per 32 ETH
+  emissions: Record<FeeRegime, { logMean: number; logStd: number }>; // Log daily yield per 32 ETH
+  initialProbabilities: RegimeProbabilities;
+  components: ExecutionComponentModel;
+}
+
+/**
+ * Recent execution conditions a forecast starts from
+ * Yields are per 32 ETH at the stake level they were observed at
+ */
+export interface ExecutionSnapshot {
+  gasPrice: number; // Gwei
+  priorityFeeYield: number; // ETH/day per 32 ETH
+  mevYield: number; // ETH/day per 32 ETH
+  totalStakedETH: number;
+}
+
 /**
  * Historical execution data point
  */
@@ -28,27 +115,21 @@ export interface ExecutionDataPoint {
  * Regime detection result
  */
 export interface RegimeDetection {
-  currentRegime: FeeRegime;
-  regimeConfidence: number; // 0-1 confidence in regime classification
+  currentRegime: FeeRegime; // Most likely regime today
+  regimeConfidence: number; // Filtered probability of currentRegime
+  stateProbabilities: RegimeProbabilities; // Filtered P(regime | history to date)
   daysInRegime: number;
-  transitionProbability: {
-    toCalm: number;
-    toElevated: number;
-    toHot: number;
-  };
+  transitionProbability: RegimeTransitions;
 }
 
 /**
  * Execution yield forecast
  */
 export interface ExecutionYieldForecast {
-  dailyYieldETH: number; // Expected daily yield per validator
+  dailyYieldETH: number; // Expected daily yield per 32 ETH staked
+  networkRevenuePerDayETH: number; // Fees + MEV paid to all stake
   annualizedAPR: number; // As percentage
   regime: FeeRegime;
-  confidence: {
-    lower: number;
-    upper: number;
-  };
   components: {
     priorityFees: number;
     mevRewards: number;
@@ -56,15 +137,15 @@ export interface ExecutionYieldForecast {
 }
 
 // Regime thresholds (calibrated from historical data)
-const REGIME_THRESHOLDS = {
-  // Daily execution yield per validator in ETH
+const REGIME_THRESHOLDS: RegimeThresholds = {
+  // Daily execution yield per 32 ETH staked
   calm: { max: 0.001 }, // < 0.001 ETH/day
   elevated: { min: 0.001, max: 0.003 }, // 0.001-0.003 ETH/day
   hot: { min: 0.003 }, // > 0.003 ETH/day
 };
 
 // Regime transition probabilities (daily)
-const TRANSITION_MATRIX: Record<FeeRegime, { toCalm: number; toElevated: number; toHot: number }> = {
+const TRANSITION_MATRIX: Record<FeeRegime, RegimeTransitions> = {
   calm: { toCalm: 0.85, toElevated: 0.12, toHot: 0.03 },
   elevated: { toCalm: 0.25, toElevated: 0.55, toHot: 0.20 },
   hot: { toCalm: 0.10, toElevated: 0.40, toHot: 0.50 },
@@ -77,172 +158,333 @@ const MEAN_REVERSION = {
   hot: { target: 0.004, halfLife: 3 }, // Hot regimes revert faster
 };
 
+// Priority fees and MEV, calibrated to sum to the regime totals above
+const COMPONENT_MODEL: ExecutionComponentModel = {
+  gasPrice: {
+    calm: { target: 15, halfLife: 7 },
+    elevated: { target: 30, halfLife: 5 },
+    hot: { target: 55, halfLife: 3 },
+  },
+  priorityFeeScale: 2.6e-6,
+  priorityFeeGasElasticity: 1.6,
+  mev: {
+    calm: { target: 0.0003, halfLife: 7 },
+    elevated: { target: 0.0012, halfLife: 4 },
+    hot: { target: 0.0024, halfLife: 2 }, // MEV spikes fade fastest
+  },
+  gasPriceLogStd: 0.25,
+  mevLogStd: 0.5, // MEV is far spikier than gas
+};
+
+/**
+ * Hand-calibrated regime model used when there is no history to fit
+ */
+export const DEFAULT_REGIME_PARAMETERS: RegimeParameters = {
+  thresholds: REGIME_THRESHOLDS,
+  transitionMatrix: TRANSITION_MATRIX,
+  meanReversion: MEAN_REVERSION,
+  emissions: {
+    calm: { logMean: Math.log(MEAN_REVERSION.calm.target), logStd: 0.4 },
+    elevated: { logMean: Math.log(MEAN_REVERSION.elevated.target), logStd: 0.3 },
+    hot: { logMean: Math.log(MEAN_REVERSION.hot.target), logStd: 0.3 },
+  },
+  initialProbabilities: { calm: 0.6, elevated: 0.3, hot: 0.1 },
+  components: COMPONENT_MODEL,
+};
+
+// Days averaged for the starting execution snapshot
+const SNAPSHOT_DAYS = 7;
+
+// Floor for log-yield observations on days with no execution revenue
+const MIN_DAILY_YIELD = 1e-7;
+
+/**
+ * Daily execution yield per 32 ETH staked, oldest day first
+ */
+export function getDailyYieldSeries(
+  history: ExecutionDataPoint[],
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number[] {
+  const stakeUnits = totalStakedETH / getStakeUnitETH(config);
+  return [...history]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map((d) => (d.priorityFeesETH + d.mevRewardsETH) / stakeUnits);
+}
+
+/**
+ * Gas price, priority fee yield and MEV yield per 32 ETH, oldest day first
+ */
+export function getExecutionComponentSeries(
+  history: ExecutionDataPoint[],
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): ExecutionComponentSeries {
+  const stakeUnits = totalStakedETH / getStakeUnitETH(config);
+  const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return {
+    gasPrice: sorted.map((d) => d.avgGasPrice),
+    priorityFeeYield: sorted.map((d) => d.priorityFeesETH / stakeUnits),
+    mevYield: sorted.map((d) => d.mevRewardsETH / stakeUnits),
+  };
+}
+
+/**
+ * Average gas price and per-32-ETH fee and MEV yields over the latest days
+ */
+export function getExecutionSnapshot(
+  history: ExecutionDataPoint[],
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): ExecutionSnapshot {
+  if (history.length === 0) {
+    const { components } = DEFAULT_REGIME_PARAMETERS;
+    const gasPrice = components.gasPrice.calm.target;
+    return {
+      gasPrice,
+      priorityFeeYield: getPriorityFeeYield(gasPrice, components),
+      mevYield: components.mev.calm.target,
+      totalStakedETH,
+    };
+  }
+
+  const stakeUnits = totalStakedETH / getStakeUnitETH(config);
+  const recent = [...history]
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, SNAPSHOT_DAYS);
+
+  return {
+    gasPrice: mean(recent.map((d) => d.avgGasPrice)),
+    priorityFeeYield: mean(recent.map((d) => d.priorityFeesETH)) / stakeUnits,
+    mevYield: mean(recent.map((d) => d.mevRewardsETH)) / stakeUnits,
+    totalStakedETH,
+  };
+}
+
+/**
+ * Priority fee yield implied by a gas price (ETH/day per 32 ETH)
+ */
+export function getPriorityFeeYield(
+  gasPrice: number,
+  components: ExecutionComponentModel
+): number {
+  return components.priorityFeeScale *
+    Math.pow(Math.max(gasPrice, 0), components.priorityFeeGasElasticity);
+}
+
+/**
+ * Density of a daily yield under each regime's log-normal emission
+ */
+function getEmissionDensities(yieldPerStakeUnit: number, params: RegimeParameters): number[] {
+  const x = Math.log(Math.max(yieldPerStakeUnit, MIN_DAILY_YIELD));
+  return FEE_REGIMES.map((regime) => {
+    const { logMean, logStd } = params.emissions[regime];
+    const z = (x - logMean) / logStd;
+    return Math.max(Math.exp(-0.5 * z * z) / logStd, Number.MIN_VALUE);
+  });
+}
+
+function toProbabilities(values: number[]): RegimeProbabilities {
+  return { calm: values[0], elevated: values[1], hot: values[2] };
+}
+
+function getMostLikelyRegime(probabilities: RegimeProbabilities): FeeRegime {
+  return FEE_REGIMES.reduce((best, regime) =>
+    probabilities[regime] > probabilities[best] ? regime : best
+  );
+}
+
+/**
+ * Propagate regime probabilities one day through the transition matrix
+ */
+function stepRegimeProbabilities(
+  probabilities: RegimeProbabilities,
+  params: RegimeParameters
+): RegimeProbabilities {
+  const { calm, elevated, hot } = params.transitionMatrix;
+  return {
+    calm: probabilities.calm * calm.toCalm +
+      probabilities.elevated * elevated.toCalm +
+      probabilities.hot * hot.toCalm,
+    elevated: probabilities.calm * calm.toElevated +
+      probabilities.elevated * elevated.toElevated +
+      probabilities.hot * hot.toElevated,
+    hot: probabilities.calm * calm.toHot +
+      probabilities.elevated * elevated.toHot +
+      probabilities.hot * hot.toHot,
+  };
+}
+
+/**
+ * Filtered regime probabilities for each day of a yield series
+ * Forward pass of the hidden Markov model: P(regime_t | yields_1..t)
+ */
+export function filterRegimeProbabilities(
+  dailyYields: number[],
+  params: RegimeParameters = DEFAULT_REGIME_PARAMETERS
+): RegimeProbabilities[] {
+  const filtered: RegimeProbabilities[] = [];
+  let prior = params.initialProbabilities;
+
+  for (const dailyYield of dailyYields) {
+    const densities = getEmissionDensities(dailyYield, params);
+    const joint = FEE_REGIMES.map((regime, i) => prior[regime] * densities[i]);
+    const total = joint.reduce((sum, p) => sum + p, 0);
+    const posterior = toProbabilities(joint.map((p) => p / total));
+
+    filtered.push(posterior);
+    prior = stepRegimeProbabilities(posterior, params);
+  }
+
+  return filtered;
+}
+
 /**
  * Detect current fee regime from historical data
  */
 export function detectRegime(
   history: ExecutionDataPoint[],
-  activeValidators: number
+  totalStakedETH: number,
+  params: RegimeParameters = DEFAULT_REGIME_PARAMETERS,
+  config: ChainConfig = MAINNET_CONFIG
 ): RegimeDetection {
   if (history.length === 0) {
+    const currentRegime = getMostLikelyRegime(params.initialProbabilities);
     return {
-      currentRegime: 'calm',
-      regimeConfidence: 0.5,
+      currentRegime,
+      regimeConfidence: params.initialProbabilities[currentRegime],
+      stateProbabilities: { ...params.initialProbabilities },
       daysInRegime: 0,
-      transitionProbability: TRANSITION_MATRIX.calm,
+      transitionProbability: params.transitionMatrix[currentRegime],
     };
   }
 
-  // Sort by date descending
-  const sorted = [...history].sort(
-    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+  const filtered = filterRegimeProbabilities(
+    getDailyYieldSeries(history, totalStakedETH, config),
+    params
   );
+  const stateProbabilities = filtered[filtered.length - 1];
+  const currentRegime = getMostLikelyRegime(stateProbabilities);
 
-  // Calculate recent daily yield per validator
-  const recentDays = sorted.slice(0, 7);
-  const dailyYields = recentDays.map((d) => {
-    const totalYield = d.priorityFeesETH + d.mevRewardsETH;
-    return totalYield / activeValidators;
-  });
-
-  const avgYield = mean(dailyYields);
-  const yieldStd = dailyYields.length > 1 ? standardDeviation(dailyYields) : avgYield * 0.3;
-
-  // Classify regime
-  let currentRegime: FeeRegime;
-  let confidence: number;
-
-  if (avgYield < REGIME_THRESHOLDS.calm.max) {
-    currentRegime = 'calm';
-    confidence = 1 - avgYield / REGIME_THRESHOLDS.calm.max;
-  } else if (avgYield < REGIME_THRESHOLDS.elevated.max!) {
-    currentRegime = 'elevated';
-    const range = REGIME_THRESHOLDS.elevated.max! - REGIME_THRESHOLDS.elevated.min!;
-    const position = (avgYield - REGIME_THRESHOLDS.elevated.min!) / range;
-    confidence = 1 - Math.abs(position - 0.5) * 2; // Highest confidence in middle
-  } else {
-    currentRegime = 'hot';
-    confidence = Math.min(1, (avgYield - REGIME_THRESHOLDS.hot.min!) / 0.002);
-  }
-
-  // Count consecutive days in current regime
+  // Count consecutive days the filter has favoured the current regime
   let daysInRegime = 0;
-  for (const point of sorted) {
-    const yield_ = (point.priorityFeesETH + point.mevRewardsETH) / activeValidators;
-    const pointRegime = classifyYield(yield_);
-    if (pointRegime === currentRegime) {
-      daysInRegime++;
-    } else {
-      break;
-    }
+  for (let i = filtered.length - 1; i >= 0; i--) {
+    if (getMostLikelyRegime(filtered[i]) !== currentRegime) break;
+    daysInRegime++;
   }
 
   return {
     currentRegime,
-    regimeConfidence: Math.max(0.3, Math.min(1, confidence)),
+    regimeConfidence: stateProbabilities[currentRegime],
+    stateProbabilities,
     daysInRegime,
-    transitionProbability: TRANSITION_MATRIX[currentRegime],
+    transitionProbability: params.transitionMatrix[currentRegime],
   };
 }
 
 /**
- * Classify a single yield value into a regime
+ * Classify a single yield value into a regime using hard thresholds
  */
-function classifyYield(yieldPerValidator: number): FeeRegime {
-  if (yieldPerValidator < REGIME_THRESHOLDS.calm.max) return 'calm';
-  if (yieldPerValidator < REGIME_THRESHOLDS.elevated.max!) return 'elevated';
+export function classifyYield(
+  yieldPerStakeUnit: number,
+  thresholds: RegimeThresholds = REGIME_THRESHOLDS
+): FeeRegime {
+  if (yieldPerStakeUnit < thresholds.calm.max) return 'calm';
+  if (yieldPerStakeUnit < thresholds.elevated.max) return 'elevated';
   return 'hot';
 }
 
 /**
  * Forecast execution yield for a given day ahead
+ * Gas price and MEV revert separately towards the regime mix expected at
+ * the horizon; priority fees follow the projected gas price. Fees and MEV
+ * are a network-wide pool, so the per-32-ETH yield is diluted when
+ * totalStakedETH is above the snapshot's stake. This is the expected
+ * path; simulateExecutionYieldPaths (simulation.ts) gives its percentile
+ * bands.
  */
 export function forecastExecutionYield(
-  currentYield: number,
-  currentRegime: FeeRegime,
+  snapshot: ExecutionSnapshot,
+  currentRegime: FeeRegime | RegimeProbabilities,
   daysAhead: number,
-  activeValidators: number
+  totalStakedETH: number,
+  params: RegimeParameters = DEFAULT_REGIME_PARAMETERS,
+  config: ChainConfig = MAINNET_CONFIG
 ): ExecutionYieldForecast {
-  const reversion = MEAN_REVERSION[currentRegime];
-  const transitions = TRANSITION_MATRIX[currentRegime];
-
-  // Apply mean reversion
-  const decayFactor = Math.pow(0.5, daysAhead / reversion.halfLife);
-  const revertedYield =
-    currentYield * decayFactor + reversion.target * (1 - decayFactor);
-
-  // Estimate regime at forecast horizon
-  // Simplified: use transition probabilities
-  let expectedRegime: FeeRegime = currentRegime;
-  let calmProb = currentRegime === 'calm' ? 1 : 0;
-  let elevatedProb = currentRegime === 'elevated' ? 1 : 0;
-  let hotProb = currentRegime === 'hot' ? 1 : 0;
-
+  const stakeUnitETH = getStakeUnitETH(config);
+  const { components } = params;
+  const start: RegimeProbabilities = typeof currentRegime === 'string'
+    ? { calm: 0, elevated: 0, hot: 0, [currentRegime]: 1 }
+    : currentRegime;
+
+  // Estimate regime at forecast horizon from the transition matrix
+  let probabilities = start;
   for (let d = 0; d < daysAhead; d++) {
-    const newCalm =
-      calmProb * TRANSITION_MATRIX.calm.toCalm +
-      elevatedProb * TRANSITION_MATRIX.elevated.toCalm +
-      hotProb * TRANSITION_MATRIX.hot.toCalm;
-    const newElevated =
-      calmProb * TRANSITION_MATRIX.calm.toElevated +
-      elevatedProb * TRANSITION_MATRIX.elevated.toElevated +
-      hotProb * TRANSITION_MATRIX.hot.toElevated;
-    const newHot =
-      calmProb * TRANSITION_MATRIX.calm.toHot +
-      elevatedProb * TRANSITION_MATRIX.elevated.toHot +
-      hotProb * TRANSITION_MATRIX.hot.toHot;
-
-    calmProb = newCalm;
-    elevatedProb = newElevated;
-    hotProb = newHot;
+    probabilities = stepRegimeProbabilities(probabilities, params);
   }
 
-  // Most likely regime
-  if (calmProb >= elevatedProb && calmProb >= hotProb) {
-    expectedRegime = 'calm';
-  } else if (elevatedProb >= hotProb) {
-    expectedRegime = 'elevated';
-  } else {
-    expectedRegime = 'hot';
-  }
+  // Apply mean reversion: the speed comes from today's regime, the target
+  // from the regime mix expected at the horizon
+  const revert = (current: number, model: RegimeMeanReversion) => {
+    const halfLife = FEE_REGIMES.reduce(
+      (sum, regime) => sum + start[regime] * model[regime].halfLife,
+      0
+    );
+    const target = FEE_REGIMES.reduce(
+      (sum, regime) => sum + probabilities[regime] * model[regime].target,
+      0
+    );
+    const decayFactor = Math.pow(0.5, daysAhead / halfLife);
+    return { value: current * decayFactor + target * (1 - decayFactor), decayFactor };
+  };
 
-  // Adjust yield for expected regime
-  const regimeTarget = MEAN_REVERSION[expectedRegime].target;
-  const finalYield = revertedYield * 0.7 + regimeTarget * 0.3;
+  const gas = revert(snapshot.gasPrice, components.gasPrice);
+  const mevYield = revert(snapshot.mevYield, components.mev).value;
 
-  // Annualize: daily yield * 365 / 32 ETH stake
-  const annualizedAPR = (finalYield * 365 / 32) * 100;
+  // Today's gap between observed fees and the gas-implied level fades with gas
+  const impliedFee = getPriorityFeeYield(snapshot.gasPrice, components);
+  const feeBasis = impliedFee > 0 ? snapshot.priorityFeeYield / impliedFee : 1;
+  const priorityFeeYield = getPriorityFeeYield(gas.value, components) *
+    (1 + (feeBasis - 1) * gas.decayFactor);
 
-  // Confidence interval widens with forecast horizon
-  const uncertaintyFactor = 1 + Math.sqrt(daysAhead) * 0.1;
+  // Share the network-wide pool across the forecast stake
+  const stakeDilution = totalStakedETH > 0 ? snapshot.totalStakedETH / totalStakedETH : 0;
+  const networkRevenuePerDayETH =
+    (priorityFeeYield + mevYield) * (snapshot.totalStakedETH / stakeUnitETH);
+  const finalYield = (priorityFeeYield + mevYield) * stakeDilution;
 
-  // Split between fees and MEV (typical ratio)
-  const feeRatio = 0.4; // 40% priority fees, 60% MEV
-  const priorityFees = finalYield * feeRatio;
-  const mevRewards = finalYield * (1 - feeRatio);
+  // Annualize: daily yield * 365 / 32 ETH stake unit
+  const toAPR = (dailyYield: number) => (dailyYield * 365 / stakeUnitETH) * 100;
+  const annualizedAPR = toAPR(finalYield);
 
   return {
     dailyYieldETH: finalYield,
+    networkRevenuePerDayETH,
     annualizedAPR,
-    regime: expectedRegime,
-    confidence: {
-      lower: annualizedAPR / uncertaintyFactor,
-      upper: annualizedAPR * uncertaintyFactor,
-    },
+    regime: getMostLikelyRegime(probabilities),
     components: {
-      priorityFees: (priorityFees * 365 / 32) * 100,
-      mevRewards: (mevRewards * 365 / 32) * 100,
+      priorityFees: toAPR(priorityFeeYield * stakeDilution),
+      mevRewards: toAPR(mevYield * stakeDilution),
     },
   };
 }
 
+// Mean-one log-normal multiplier for mock data
+function mockLogNormal(sigma: number): number {
+  const u = Math.max(Math.random(), Number.MIN_VALUE);
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+  return Math.exp(sigma * z - (sigma * sigma) / 2);
+}
+
 /**
  * Generate mock execution history for development
  */
 export function generateMockExecutionHistory(
   days: number,
-  activeValidators: number
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
 ): ExecutionDataPoint[] {
+  const stakeUnits = totalStakedETH / getStakeUnitETH(config);
   const data: ExecutionDataPoint[] = [];
   const now = new Date();
 
@@ -269,19 +511,15 @@ export function generateMockExecutionHistory(
     }
     daysInCurrentRegime++;
 
-    // Generate yield based on regime
-    const baseYield = MEAN_REVERSION[currentRegime].target * activeValidators;
-    const noise = (Math.random() - 0.5) * baseYield * 0.4;
-    const totalYield = Math.max(0, baseYield + noise);
-
-    // Split between priority fees and MEV
-    const feeRatio = 0.35 + Math.random() * 0.1;
-    const priorityFeesETH = totalYield * feeRatio;
-    const mevRewardsETH = totalYield * (1 - feeRatio);
+    // Gas price follows the regime; priority fees follow gas
+    const avgGasPrice = COMPONENT_MODEL.gasPrice[currentRegime].target *
+      mockLogNormal(COMPONENT_MODEL.gasPriceLogStd);
+    const priorityFeesETH = getPriorityFeeYield(avgGasPrice, COMPONENT_MODEL) *
+      mockLogNormal(0.1) * stakeUnits;
 
-    // Gas price correlates with regime
-    const baseGas = currentRegime === 'hot' ? 50 : currentRegime === 'elevated' ? 25 : 10;
-    const avgGasPrice = baseGas + Math.random() * 10;
+    // MEV has its own regime level and heavier spikes
+    const mevRewardsETH = COMPONENT_MODEL.mev[currentRegime].target *
+      mockLogNormal(COMPONENT_MODEL.mevLogStd) * stakeUnits;
 
     data.push({
       timestamp: date,
@@ -0,0 +1,69 @@
+/**
+ * Exit Queue Model
+ *
+ * Voluntary exits wait in the exit queue until the exit churn reaches
+ * them. Since Electra the queue is drained by ETH of effective balance per
+ * epoch; before Electra by a number of validators, which the churn limits
+ * already express in ETH. Exited stake then enters the withdrawal pipeline.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerDay } from './config';
+import { type Fork, getChurnLimits } from './churn';
+
+/**
+ * Exit queue after one forecast step
+ */
+export interface ExitQueueStep {
+  pendingETH: number; // Still waiting at the end of the step
+  arrivalsETH: number; // New exit requests during the step
+  processedETH: number; // Stake that exited during the step
+  waitDays: number; // Wait for an exit joining the back of the queue
+}
+
+/**
+ * Maximum ETH the exit queue can process per day
+ */
+export function getExitProcessingLimit(
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  return getChurnLimits(totalActiveBalanceETH, fork, config).exit * getEpochsPerDay(config);
+}
+
+/**
+ * Days until an exit requested now leaves the active set
+ */
+export function getExitQueueWaitDays(
+  pendingETH: number,
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const dailyLimit = getExitProcessingLimit(totalActiveBalanceETH, fork, config);
+  return dailyLimit > 0 ? pendingETH / dailyLimit : 0;
+}
+
+/**
+ * Advance the exit queue by one day
+ * Arrivals join the back of the queue and are processed in order
+ */
+export function stepExitQueue(
+  pendingETH: number,
+  arrivalsETH: number,
+  totalActiveBalanceETH: number,
+  fork: Fork = 'electra',
+  config: ChainConfig = MAINNET_CONFIG
+): ExitQueueStep {
+  const dailyLimit = getExitProcessingLimit(totalActiveBalanceETH, fork, config);
+  const queuedETH = pendingETH + Math.max(0, arrivalsETH);
+  const processedETH = Math.min(queuedETH, dailyLimit);
+  const remainingETH = queuedETH - processedETH;
+
+  return {
+    pendingETH: remainingETH,
+    arrivalsETH: Math.max(0, arrivalsETH),
+    processedETH,
+    waitDays: dailyLimit > 0 ? remainingETH / dailyLimit : 0,
+  };
+}
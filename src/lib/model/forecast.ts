@@ -7,21 +7,109 @@
 
 import { mean, standardDeviation, linearRegression, sampleCorrelation } from 'simple-statistics';
 import {
-  getTheoreticalAPR,
-  getRealisticAPR,
-  getStakeRatio,
-  getChurnLimit,
-  getEquilibriumStakeForAPR,
-  epochsToDays,
-} from './protocol';
-import { TOTAL_ETH_SUPPLY, SECONDS_PER_EPOCH, EPOCHS_PER_DAY } from './constants';
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { getStakeRatio } from './protocol';
+import {
+  type ChainConfig,
+  MAINNET_CONFIG,
+  getEpochsPerDay,
+  getSecondsPerEpoch,
+} from './config';
+import { type Fork, getChurnLimits, getForkAtDate } from './churn';
+import { type ConsensusRewardBreakdown, getConsensusRewards } from './rewards';
+import { stepSupply } from './supply';
+import { type PenaltyScenario, getDailyPenalties } from './penalties';
+import {
+  type EffectiveBalanceDistribution,
+  estimateBalanceDistribution,
+  addStake,
+  removeStake,
+  consolidate,
+  accrueRewards,
+  getValidatorCount,
+  getTotalEffectiveBalance,
+  getAverageEffectiveBalance,
+  getCompoundingShare,
+} from './balances';
+import { type DepositQueueStep, getDepositQueueWaitDays, stepDepositQueue } from './deposits';
+import { type ExitQueueStep, getExitQueueWaitDays, stepExitQueue } from './exits';
+import { calibrateRegimes } from './calibration';
+import {
+  type PathSimulationOptions,
+  type PercentileBand,
+  DEFAULT_SIMULATION_SEED,
+  getPercentileBand,
+  getExecutionAPRBand,
+  sampleExecutionYieldPaths,
+  scalePercentileBand,
+} from './simulation';
+import {
+  type CovariatePath,
+  type CovariateValues,
+  fitCovariateTrend,
+  getCovariateFlowEffect,
+  getLatestCovariates,
+  projectCovariates,
+} from './covariates';
+import {
+  type CohortBreakdown,
+  type CohortFlowModel,
+  type CohortStates,
+  type CohortValues,
+  fitCohortFlows,
+  getCohortArrivals,
+  getCohortDemands,
+  getInitialCohortStates,
+  stepCohorts,
+} from './cohorts';
+import { createRng, sampleNormal } from './random';
+import {
+  type IssuancePolicy,
+  applyIssuanceCurve,
+  getActiveIssuanceCurve,
+} from './issuance';
+import {
+  type PendingWithdrawal,
+  type TimeToLiquidity,
+  getWithdrawalSweep,
+  getTimeToLiquidity,
+  queueWithdrawal,
+  processWithdrawals,
+  getPendingWithdrawalETH,
+  getWithdrawableETH,
+} from './withdrawals';
+import { type EquilibriumResult, solveEquilibrium } from './equilibrium';
+import {
+  type DemandModel,
+  calibrateDemand,
+  getNetFlowDemand,
+  getReservationYieldCurve,
+} from './demand';
 import {
   type FeeRegime,
   type ExecutionDataPoint,
+  type ExecutionSnapshot,
+  type RegimeParameters,
+  type RegimeProbabilities,
+  FEE_REGIMES,
   detectRegime,
   forecastExecutionYield,
   generateMockExecutionHistory,
+  getExecutionSnapshot,
 } from './execution';
+import { type MEVBoostScenario, getMEVBoostMultiplier } from './mevboost';
+import {
+  type EventAdjustments,
+  type ForecastEvent,
+  getEventAdjustments,
+  getEventBoundaryDays,
+  pinRegime,
+} from './events';
 
 /**
  * Historical data point for training
@@ -32,7 +120,15 @@ export interface HistoricalDataPoint {
   activeValidators: number;
   entryQueueLength: number;
   exitQueueLength: number;
+  pendingDepositsETH?: number; // Pending-deposit queue in ETH (defaults to entryQueueLength x 32 ETH)
   observedAPR?: number; // Actual observed APR if available
+  totalSupply?: number; // Total ETH supply if known (defaults to the config's starting supply)
+  networkParticipation?: number; // Attestation participation rate (0-1)
+  balanceDistribution?: EffectiveBalanceDistribution; // Estimated from stake and validator count if absent
+  ethPriceUSD?: number; // ETH price
+  borrowRate?: number; // DeFi ETH borrow rate (%)
+  lstDiscount?: number; // Liquid staking token discount to ETH (%)
+  cohortStakeETH?: CohortValues; // Stake by staker cohort; unlabelled stake counts as "other"
 }
 
 /**
@@ -40,6 +136,8 @@ export interface HistoricalDataPoint {
  */
 export interface DriverAttribution {
   consensusAPR: number; // Base protocol rewards (inverse sqrt of stake)
+  consensusBreakdown: ConsensusRewardBreakdown; // Source/target/head/sync/proposer APR
+  penaltyAPR: number; // Missed-attestation, slashing and inactivity-leak losses
   executionAPR: number; // Priority fees + MEV
   totalAPR: number;
   // Percentage contribution
@@ -58,12 +156,15 @@ export interface DriverAttribution {
 export interface ForecastPoint {
   date: Date;
   totalStakedETH: number;
+  activeValidators: number; // Falls as consolidations merge 0x01 validators
+  totalSupply: number; // Projected ETH supply (issuance minus burn)
+  netInflation: number; // Annualized supply growth (%)
   stakeRatio: number;
   forecastAPR: number;
-  confidence: {
-    lower: number;
-    upper: number;
-  };
+  issuanceCurve: string; // Reward curve in force on this day
+  events: string[]; // Scheduled shocks in force on this day
+  covariates: CovariateValues; // Projected covariates (those present in the history)
+  executionAPRBand: PercentileBand; // Simulated execution APR percentiles (scenario-adjusted, at the forecast stake)
   // Breakdown of forecast components
   components: {
     protocolBase: number;
@@ -72,6 +173,55 @@ export interface ForecastPoint {
   };
   // Driver attribution
   drivers: DriverAttribution;
+  // Gravity point: stake where total expected APR meets the target yield
+  equilibrium: EquilibriumResult;
+  // Entry (pending-deposit, EIP-6110) and exit queues at the end of the day
+  pendingDeposits: DepositQueueStep;
+  exitQueue: ExitQueueStep;
+  // Per-cohort stake and flows (empty when the history has no cohort stake)
+  cohorts: CohortBreakdown;
+  // Exited stake stays illiquid until the withdrawal sweep pays it out
+  withdrawals: {
+    pendingETH: number; // Exited but not yet withdrawn
+    withdrawnETH: number; // Full withdrawals paid during the day
+    partialWithdrawalsETH: number; // Rewards skimmed during the day
+    sweepCycleDays: number;
+    timeToLiquidity: TimeToLiquidity; // For an exit requested on this day
+  };
+}
+
+/**
+ * Wait times and stake flow implied by the current queues
+ */
+export interface QueuePressure {
+  entryWaitDays: number; // Days to clear the entry queue
+  exitWaitDays: number; // Days to clear the exit queue
+  netDailyFlowETH: number; // Activations minus exits per day while both queues drain
+}
+
+/**
+ * Spacing of forecast output points
+ * Weekly points fall on Mondays and monthly points on the 1st; epoch
+ * points interpolate stake and supply between the model's daily steps.
+ */
+export type ForecastGranularity = 'epoch' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Forecast output settings
+ */
+export interface ForecastOptions {
+  granularity?: ForecastGranularity; // Default: monthly
+}
+
+/**
+ * Simulated forecast percentiles at one output date
+ */
+export interface ForecastBand {
+  date: Date;
+  day: number; // Days ahead
+  totalStakedETH: PercentileBand;
+  stakeRatio: PercentileBand; // %
+  forecastAPR: PercentileBand; // %
 }
 
 /**
@@ -82,8 +232,26 @@ export interface ScenarioParams {
   mevMultiplier: number; // 0.5 to 2.0 multiplier on MEV rewards
   queuePressure: number; // Multiplier on queue lengths
   feeRegimeBias: 'calm' | 'elevated' | 'hot' | 'current'; // Force a fee regime or use current
+  penalties?: PenaltyScenario; // Optional slashing / non-finality stress inputs
+  consolidationUtilization?: number; // Share of consolidation churn used (0-1)
+  issuance?: IssuancePolicy; // Reward curve change (defaults to today's curve)
+  seed?: number; // Seed for Monte Carlo execution yield paths
+  mevBoost?: MEVBoostScenario; // Adoption, relay outages and builder payment changes
+  events?: ForecastEvent[]; // Shocks applied on specific forecast days
+  demand?: DemandModel; // Staking demand curve (default: calibrated from the history); not with cohort stake
+  covariates?: CovariatePath[]; // Paths for ETH price, borrow rates and the LST discount
 }
 
+/**
+ * Issuance policy for each scenario in compareScenarios
+ */
+export type ScenarioIssuancePolicies = Partial<
+  Record<'baseline' | 'bullish' | 'bearish', IssuancePolicy>
+>;
+
+const DEFAULT_NETWORK_PARTICIPATION = 0.995;
+const DEFAULT_CONSOLIDATION_UTILIZATION = 0.25;
+
 const DEFAULT_SCENARIO: ScenarioParams = {
   netFlowBias: 0,
   mevMultiplier: 1.0,
@@ -91,6 +259,27 @@ const DEFAULT_SCENARIO: ScenarioParams = {
   feeRegimeBias: 'current',
 };
 
+/**
+ * Net stake change per day between consecutive history points, oldest first
+ */
+export function getDailyStakeChanges(history: HistoricalDataPoint[]): number[] {
+  const sortedHistory = [...history].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+
+  const dailyChanges: number[] = [];
+  for (let i = 1; i < sortedHistory.length; i++) {
+    const daysDiff =
+      (sortedHistory[i].timestamp.getTime() - sortedHistory[i - 1].timestamp.getTime()) /
+      (24 * 60 * 60 * 1000);
+    const stakeDiff = sortedHistory[i].totalStakedETH - sortedHistory[i - 1].totalStakedETH;
+    if (daysDiff > 0) {
+      dailyChanges.push(stakeDiff / daysDiff);
+    }
+  }
+  return dailyChanges;
+}
+
 /**
  * Calculate the trend in staking growth from historical data
  * Returns daily growth rate
@@ -104,22 +293,11 @@ export function calculateStakingTrend(history: HistoricalDataPoint[]): {
     return { dailyGrowthRate: 0, volatility: 0, r2: 0 };
   }
 
-  // Calculate daily changes
-  const dailyChanges: number[] = [];
+  const dailyChanges = getDailyStakeChanges(history);
   const sortedHistory = [...history].sort(
     (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
   );
 
-  for (let i = 1; i < sortedHistory.length; i++) {
-    const daysDiff =
-      (sortedHistory[i].timestamp.getTime() - sortedHistory[i - 1].timestamp.getTime()) /
-      (24 * 60 * 60 * 1000);
-    const stakeDiff = sortedHistory[i].totalStakedETH - sortedHistory[i - 1].totalStakedETH;
-    if (daysDiff > 0) {
-      dailyChanges.push(stakeDiff / daysDiff);
-    }
-  }
-
   if (dailyChanges.length === 0) {
     return { dailyGrowthRate: 0, volatility: 0, r2: 0 };
   }
@@ -149,48 +327,313 @@ export function calculateStakingTrend(history: HistoricalDataPoint[]): {
 
 /**
  * Calculate net queue pressure (entry demand vs exit demand)
+ * Queue lengths are in validators of MAX_EFFECTIVE_BALANCE
  */
 export function calculateQueuePressure(
   entryQueueLength: number,
   exitQueueLength: number,
-  activeValidators: number
-): number {
-  // Net validators per day based on queues
-  const churnLimit = getChurnLimit(activeValidators);
-  const validatorsPerDay = churnLimit * EPOCHS_PER_DAY;
-
-  // Days to clear each queue
-  const entryDays = entryQueueLength / validatorsPerDay;
-  const exitDays = exitQueueLength / validatorsPerDay;
-
-  // Net pressure: positive = growth, negative = contraction
-  return entryQueueLength - exitQueueLength;
+  totalStakedETH: number,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
+): QueuePressure {
+  const validatorBalanceETH = config.maxEffectiveBalance / 1e9;
+  const maxDailyChange = getMaxDailyStakeChange(totalStakedETH, fork, config);
+  const entryETH = entryQueueLength * validatorBalanceETH;
+  const exitETH = exitQueueLength * validatorBalanceETH;
+
+  return {
+    entryWaitDays: getDepositQueueWaitDays(entryETH, totalStakedETH, fork, undefined, config),
+    exitWaitDays: getExitQueueWaitDays(exitETH, totalStakedETH, fork, config),
+    // Positive = growth, negative = contraction
+    netDailyFlowETH: Math.min(entryETH, maxDailyChange.entry) -
+      Math.min(exitETH, maxDailyChange.exit),
+  };
 }
 
 /**
  * Calculate maximum daily stake change based on queue constraints
+ * Returns ETH per day that can enter (activation churn) and leave (exit churn)
+ */
+export function getMaxDailyStakeChange(
+  totalStakedETH: number,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
+): { entry: number; exit: number } {
+  const churn = getChurnLimits(totalStakedETH, fork, config);
+  const epochsPerDay = getEpochsPerDay(config);
+  return {
+    entry: churn.activation * epochsPerDay,
+    exit: churn.exit * epochsPerDay,
+  };
+}
+
+/**
+ * Fitted regime model, starting regime and execution snapshot for a forecast
+ */
+function getExecutionStart(
+  latestState: HistoricalDataPoint,
+  scenario: ScenarioParams,
+  executionHistory: ExecutionDataPoint[] | undefined,
+  config: ChainConfig
+): {
+  regimeParameters: RegimeParameters;
+  baseRegime: FeeRegime | RegimeProbabilities;
+  execSnapshot: ExecutionSnapshot;
+} {
+  // Generate mock execution history if not provided
+  const execHistory = executionHistory ||
+    generateMockExecutionHistory(90, latestState.totalStakedETH, config);
+
+  // Fit fee regimes to the execution history and filter the current regime
+  const regimeParameters = calibrateRegimes(execHistory, latestState.totalStakedETH, config);
+  const regimeDetection = detectRegime(
+    execHistory,
+    latestState.totalStakedETH,
+    regimeParameters,
+    config
+  );
+  const baseRegime = scenario.feeRegimeBias === 'current'
+    ? regimeDetection.stateProbabilities
+    : scenario.feeRegimeBias;
+
+  // Recent gas price, priority fees and MEV the component models start from
+  const execSnapshot = getExecutionSnapshot(execHistory, latestState.totalStakedETH, config);
+
+  return { regimeParameters, baseRegime, execSnapshot };
+}
+
+/**
+ * Daily steps from midnight of the latest history day to the same
+ * calendar day monthsAhead later
+ */
+function getForecastDays(latestState: HistoricalDataPoint, monthsAhead: number): {
+  startDate: Date;
+  daysToForecast: number;
+} {
+  const startDate = startOfDay(latestState.timestamp);
+  return {
+    startDate,
+    daysToForecast: differenceInCalendarDays(addMonths(startDate, monthsAhead), startDate),
+  };
+}
+
+// Keep points on the granularity's calendar boundaries, the final day and
+// the days each event starts and ends so shocks are visible
+function isOutputDay(
+  date: Date,
+  day: number,
+  totalDays: number,
+  eventDays: Set<number>,
+  granularity: ForecastGranularity
+): boolean {
+  if (day === totalDays || eventDays.has(day)) return true;
+  switch (granularity) {
+    case 'epoch':
+    case 'daily':
+      return true;
+    case 'weekly':
+      return startOfWeek(date, { weekStartsOn: 1 }).getTime() === date.getTime();
+    case 'monthly':
+      return date.getDate() === 1;
+  }
+}
+
+/**
+ * Entry and exit queues at the start of a forecast, in ETH
+ * The scenario's queue pressure scales both
+ */
+function getInitialQueues(
+  latestState: HistoricalDataPoint,
+  scenario: ScenarioParams,
+  config: ChainConfig
+): { entryETH: number; exitETH: number } {
+  const validatorBalanceETH = config.maxEffectiveBalance / 1e9;
+  const entryETH = latestState.pendingDepositsETH ??
+    latestState.entryQueueLength * validatorBalanceETH;
+  return {
+    entryETH: entryETH * scenario.queuePressure,
+    exitETH: latestState.exitQueueLength * validatorBalanceETH * scenario.queuePressure,
+  };
+}
+
+/**
+ * Balance distribution at the start of a forecast
+ */
+function getInitialDistribution(
+  latestState: HistoricalDataPoint,
+  config: ChainConfig
+): EffectiveBalanceDistribution {
+  return latestState.balanceDistribution ??
+    estimateBalanceDistribution(
+      latestState.activeValidators,
+      latestState.totalStakedETH,
+      undefined,
+      config
+    );
+}
+
+/**
+ * Staking flow models behind a forecast
+ * With cohort stake in the history, each cohort's fitted flows replace
+ * the aggregate demand curve and share the queues; the curve still sets
+ * the reservation yields behind the gravity point
+ */
+interface FlowModels {
+  demand: DemandModel;
+  cohorts?: CohortFlowModel[]; // Present when the history has cohort stake
+}
+
+/**
+ * Queued ETH carried from one forecast day to the next
  */
-export function getMaxDailyStakeChange(activeValidators: number): number {
-  const churnLimit = getChurnLimit(activeValidators);
-  const validatorsPerDay = churnLimit * EPOCHS_PER_DAY;
-  return validatorsPerDay * 32; // 32 ETH per validator
+interface QueueState {
+  pendingDepositsETH: number;
+  exitQueueETH: number;
+  cohorts: CohortStates;
 }
 
 /**
- * Apply APR-based feedback to growth rate
- * Higher APR attracts more stakers, lower APR discourages
+ * Flow models and starting queues for a forecast
  */
-export function applyAPRFeedback(
-  baseGrowthRate: number,
-  currentAPR: number,
-  targetAPR: number = 4.0 // Market equilibrium assumption
-): number {
-  // If APR > target, expect more staking (positive adjustment)
-  // If APR < target, expect less staking (negative adjustment)
-  const aprDiff = currentAPR - targetAPR;
-  const feedbackFactor = aprDiff * 0.1; // 10% adjustment per 1% APR difference
-
-  return baseGrowthRate * (1 + feedbackFactor);
+function getFlowStart(
+  history: HistoricalDataPoint[],
+  latestState: HistoricalDataPoint,
+  scenario: ScenarioParams,
+  config: ChainConfig
+): { models: FlowModels; queues: QueueState } {
+  const initialQueues = getInitialQueues(latestState, scenario, config);
+  const cohorts = getInitialCohortStates(
+    latestState,
+    initialQueues.entryETH,
+    initialQueues.exitETH
+  );
+  const hasCohorts = Object.keys(cohorts).length > 0;
+  if (hasCohorts && scenario.demand) {
+    throw new Error('Cohort flows replace the demand curve; drop scenario.demand or the cohort stake');
+  }
+
+  return {
+    models: {
+      demand: scenario.demand ?? calibrateDemand(history, {}, config),
+      cohorts: hasCohorts ? fitCohortFlows(history, config) : undefined,
+    },
+    queues: {
+      pendingDepositsETH: initialQueues.entryETH,
+      exitQueueETH: initialQueues.exitETH,
+      cohorts,
+    },
+  };
+}
+
+/**
+ * One day of staking flows
+ * Net demand from the demand curve (or cohort flows) plus the demand
+ * common to all stakers arrives at the queues: inflows at the entry
+ * queue, outflows at the exit queue. Only what each queue's churn
+ * processes today changes stake.
+ */
+function stepStakingFlows(
+  queues: QueueState,
+  models: FlowModels,
+  totalAPR: number,
+  stakedETH: number,
+  totalSupply: number,
+  sharedDemandETH: number,
+  shock: EventAdjustments,
+  fork: Fork,
+  config: ChainConfig
+): { deposits: DepositQueueStep; exits: ExitQueueStep; cohortDemands: CohortValues } {
+  let cohortDemands: CohortValues = {};
+  let arrivals: { entryETH: number; exitETH: number };
+  if (models.cohorts) {
+    cohortDemands = getCohortDemands(queues.cohorts, models.cohorts, totalAPR, sharedDemandETH);
+    arrivals = getCohortArrivals(cohortDemands);
+  } else {
+    const demand =
+      getNetFlowDemand(models.demand, totalAPR, getStakeRatio(stakedETH, totalSupply)) +
+      sharedDemandETH;
+    arrivals = { entryETH: Math.max(0, demand), exitETH: Math.max(0, -demand) };
+  }
+
+  const deposits = stepDepositQueue(
+    queues.pendingDepositsETH,
+    arrivals.entryETH + shock.depositDemandETH,
+    stakedETH,
+    fork,
+    undefined,
+    config
+  );
+  const exits = stepExitQueue(
+    queues.exitQueueETH,
+    arrivals.exitETH + shock.exitDemandETH,
+    stakedETH,
+    fork,
+    config
+  );
+  return { deposits, exits, cohortDemands };
+}
+
+/**
+ * Split daily points into one point per epoch
+ * Stake, supply and the queues are interpolated from the previous day;
+ * everything else is the day's values.
+ */
+function expandToEpochs(
+  daily: ForecastPoint[],
+  latestState: HistoricalDataPoint,
+  scenario: ScenarioParams,
+  config: ChainConfig
+): ForecastPoint[] {
+  const epochMs = getSecondsPerEpoch(config) * 1000;
+  const genesisMs = config.genesisTime * 1000;
+  const initialQueues = getInitialQueues(latestState, scenario, config);
+  const points: ForecastPoint[] = [];
+
+  let prev = {
+    time: latestState.timestamp.getTime(),
+    totalStakedETH: latestState.totalStakedETH,
+    totalSupply: latestState.totalSupply ?? config.totalEthSupply,
+    entryQueueETH: initialQueues.entryETH,
+    exitQueueETH: initialQueues.exitETH,
+  };
+
+  for (const point of daily) {
+    const end = point.date.getTime();
+    const span = end - prev.time;
+    let epochStart = genesisMs + Math.ceil((prev.time + 1 - genesisMs) / epochMs) * epochMs;
+
+    for (; epochStart <= end; epochStart += epochMs) {
+      const w = span > 0 ? (epochStart - prev.time) / span : 1;
+      const lerp = (from: number, to: number) => from + (to - from) * w;
+      const totalStakedETH = lerp(prev.totalStakedETH, point.totalStakedETH);
+      const totalSupply = lerp(prev.totalSupply, point.totalSupply);
+      points.push({
+        ...point,
+        date: new Date(epochStart),
+        totalStakedETH,
+        totalSupply,
+        stakeRatio: getStakeRatio(totalStakedETH, totalSupply),
+        pendingDeposits: {
+          ...point.pendingDeposits,
+          pendingETH: lerp(prev.entryQueueETH, point.pendingDeposits.pendingETH),
+        },
+        exitQueue: {
+          ...point.exitQueue,
+          pendingETH: lerp(prev.exitQueueETH, point.exitQueue.pendingETH),
+        },
+      });
+    }
+
+    prev = {
+      time: end,
+      totalStakedETH: point.totalStakedETH,
+      totalSupply: point.totalSupply,
+      entryQueueETH: point.pendingDeposits.pendingETH,
+      exitQueueETH: point.exitQueue.pendingETH,
+    };
+  }
+
+  return points;
 }
 
 /**
@@ -200,7 +643,9 @@ export function generateForecast(
   history: HistoricalDataPoint[],
   monthsAhead: number,
   scenario: ScenarioParams = DEFAULT_SCENARIO,
-  executionHistory?: ExecutionDataPoint[]
+  executionHistory?: ExecutionDataPoint[],
+  options: ForecastOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
 ): ForecastPoint[] {
   if (history.length === 0) {
     throw new Error('No historical data provided');
@@ -212,61 +657,114 @@ export function generateForecast(
   );
   const latestState = sortedHistory[0];
 
-  // Calculate trend from history
-  const trend = calculateStakingTrend(history);
-
-  // Get current queue pressure
-  const queuePressure =
-    calculateQueuePressure(
-      latestState.entryQueueLength * scenario.queuePressure,
-      latestState.exitQueueLength * scenario.queuePressure,
-      latestState.activeValidators
-    );
-
   // Calculate max daily change constraint
-  const maxDailyChange = getMaxDailyStakeChange(latestState.activeValidators);
-
-  // Generate mock execution history if not provided
-  const execHistory = executionHistory || generateMockExecutionHistory(90, latestState.activeValidators);
+  const maxDailyChange = getMaxDailyStakeChange(
+    latestState.totalStakedETH,
+    getForkAtDate(latestState.timestamp, config),
+    config
+  );
 
-  // Detect current fee regime
-  const regimeDetection = detectRegime(execHistory, latestState.activeValidators);
-  const baseRegime = scenario.feeRegimeBias === 'current'
-    ? regimeDetection.currentRegime
-    : scenario.feeRegimeBias;
+  const { regimeParameters, baseRegime, execSnapshot } = getExecutionStart(
+    latestState,
+    scenario,
+    executionHistory,
+    config
+  );
 
-  // Get current execution yield for regime model
-  const recentExec = execHistory.slice(0, 7);
-  const currentExecYield = recentExec.length > 0
-    ? mean(recentExec.map(d => (d.priorityFeesETH + d.mevRewardsETH) / latestState.activeValidators))
-    : 0.001;
+  const { models: flowModels, queues: initialQueues } = getFlowStart(
+    history,
+    latestState,
+    scenario,
+    config
+  );
+  const reservationYieldCurve = getReservationYieldCurve(flowModels.demand);
+  const covariateModel = fitCovariateTrend(history);
+  const latestCovariates = getLatestCovariates(history);
 
   // Generate daily forecasts
-  const daysToForecast = monthsAhead * 30;
+  const { startDate, daysToForecast } = getForecastDays(latestState, monthsAhead);
+  const granularity = options.granularity ?? 'monthly';
+  const eventDays = getEventBoundaryDays(scenario.events);
+
+  // Sample regime and yield paths for execution APR percentile bands,
+  // summarised only on output days
+  const executionPaths = sampleExecutionYieldPaths(
+    execSnapshot,
+    baseRegime,
+    daysToForecast,
+    regimeParameters,
+    { seed: scenario.seed }
+  );
   const forecasts: ForecastPoint[] = [];
+  const mevBoostMultiplier = getMEVBoostMultiplier(scenario.mevBoost);
 
   let currentStake = latestState.totalStakedETH;
-  let currentValidators = latestState.activeValidators;
-  let currentEntryQueue = latestState.entryQueueLength;
-  let currentExitQueue = latestState.exitQueueLength;
+  let currentSupply = latestState.totalSupply ?? config.totalEthSupply;
+  const networkParticipation = latestState.networkParticipation ?? DEFAULT_NETWORK_PARTICIPATION;
+  let distribution = getInitialDistribution(latestState, config);
+  const consolidationUtilization =
+    scenario.consolidationUtilization ?? DEFAULT_CONSOLIDATION_UTILIZATION;
+  let queues = initialQueues;
+  let pendingWithdrawals: PendingWithdrawal[] = [];
 
   for (let day = 1; day <= daysToForecast; day++) {
-    const forecastDate = new Date(latestState.timestamp);
-    forecastDate.setDate(forecastDate.getDate() + day);
+    const forecastDate = addDays(startDate, day);
+    const fork = getForkAtDate(forecastDate, config);
+    const dailyFlowLimit = getMaxDailyStakeChange(currentStake, fork, config);
+    const shock = getEventAdjustments(scenario.events, day);
+    const participation = shock.networkParticipation ?? networkParticipation;
 
-    // Calculate consensus APR (base protocol rewards)
-    const consensusAPR = getTheoreticalAPR(currentStake);
+    // Calculate consensus APR (base protocol rewards net of penalties)
+    const issuanceCurve = getActiveIssuanceCurve(scenario.issuance, forecastDate);
+    const consensusBreakdown = applyIssuanceCurve(
+      getConsensusRewards(currentStake, participation, config),
+      currentStake,
+      issuanceCurve,
+      config
+    );
+    const penalties = getDailyPenalties(
+      day,
+      currentStake,
+      participation,
+      consensusBreakdown,
+      scenario.penalties,
+      config
+    );
+    const consensusAPR = consensusBreakdown.total - penalties.penaltyAPR;
 
-    // Forecast execution yield with regime model
-    const execForecast = forecastExecutionYield(
-      currentExecYield,
+    // Forecast execution yield with regime model, shared across today's stake
+    const executionDilution = execSnapshot.totalStakedETH / currentStake;
+    const baseExecForecast = forecastExecutionYield(
+      execSnapshot,
       baseRegime,
       day,
-      currentValidators
+      currentStake,
+      regimeParameters,
+      config
     );
+    // Events can hold the fee regime for their duration
+    const execForecast = shock.feeRegime
+      ? forecastExecutionYield(
+        execSnapshot,
+        shock.feeRegime,
+        day,
+        currentStake,
+        pinRegime(regimeParameters, shock.feeRegime),
+        config
+      )
+      : baseExecForecast;
 
-    // Apply scenario multiplier to execution yield
-    const adjustedExecAPR = execForecast.annualizedAPR * scenario.mevMultiplier;
+    // Apply scenario multipliers; MEV-Boost changes only move the MEV stream
+    const executionMultiplier = scenario.mevMultiplier * shock.executionMultiplier;
+    const priorityFeeAPR = execForecast.components.priorityFees * executionMultiplier;
+    const mevAPR = execForecast.components.mevRewards * executionMultiplier * mevBoostMultiplier;
+    const adjustedExecAPR = priorityFeeAPR + mevAPR;
+    const executionAdjustment = execForecast.annualizedAPR > 0
+      ? adjustedExecAPR / execForecast.annualizedAPR
+      : executionMultiplier;
+    const bandAdjustment = baseExecForecast.annualizedAPR > 0
+      ? adjustedExecAPR / baseExecForecast.annualizedAPR
+      : executionMultiplier;
 
     // Total APR = consensus + execution
     const totalAPR = consensusAPR + adjustedExecAPR;
@@ -274,100 +772,521 @@ export function generateForecast(
     // Calculate driver attribution
     const drivers: DriverAttribution = {
       consensusAPR,
+      consensusBreakdown,
+      penaltyAPR: penalties.penaltyAPR,
       executionAPR: adjustedExecAPR,
       totalAPR,
       consensusPct: (consensusAPR / totalAPR) * 100,
       executionPct: (adjustedExecAPR / totalAPR) * 100,
-      priorityFeesPct: (execForecast.components.priorityFees / adjustedExecAPR) * (adjustedExecAPR / totalAPR) * 100,
-      mevPct: (execForecast.components.mevRewards / adjustedExecAPR) * (adjustedExecAPR / totalAPR) * 100,
+      priorityFeesPct: (priorityFeeAPR / totalAPR) * 100,
+      mevPct: (mevAPR / totalAPR) * 100,
       feeRegime: execForecast.regime,
     };
 
-    // Calculate expected daily growth with feedback
-    let expectedGrowth = applyAPRFeedback(
-      trend.dailyGrowthRate + scenario.netFlowBias * maxDailyChange * 0.1,
-      totalAPR
+    // Solve for the gravity point under today's execution revenue; the
+    // solver is costly, so only on days that are output
+    const isOutput = isOutputDay(forecastDate, day, daysToForecast, eventDays, granularity);
+    const executionRevenuePerDayETH = execForecast.networkRevenuePerDayETH * executionAdjustment;
+    const equilibrium = isOutput
+      ? solveEquilibrium(reservationYieldCurve, currentStake, {
+        executionRevenuePerDayETH,
+        totalSupply: currentSupply,
+        networkParticipation: participation,
+        fork,
+        issuanceCurve,
+      }, config)
+      : undefined;
+
+    // Staking demand with the covariate paths and scenario bias
+    const sharedDemand =
+      getCovariateFlowEffect(covariateModel, latestCovariates, scenario.covariates, day) +
+      (scenario.netFlowBias + shock.netFlowBias) * maxDailyChange.entry * 0.1;
+    const { deposits, exits, cohortDemands } = stepStakingFlows(
+      queues,
+      flowModels,
+      totalAPR,
+      currentStake,
+      currentSupply,
+      sharedDemand,
+      shock,
+      fork,
+      config
     );
+    const exitedETH = exits.processedETH;
+    const netFlowETH = deposits.processedETH - exitedETH;
 
-    // Apply queue constraints
-    const netQueueFlow = (currentEntryQueue - currentExitQueue) * 32;
-    if (expectedGrowth > 0) {
-      // Growth is limited by entry queue processing
-      expectedGrowth = Math.min(expectedGrowth, maxDailyChange);
-    } else {
-      // Contraction is limited by exit queue processing
-      expectedGrowth = Math.max(expectedGrowth, -maxDailyChange);
-    }
+    // Project supply from today's issuance and fee-regime burn
+    const supplyStep = stepSupply(currentSupply, currentStake, consensusAPR, execForecast.regime);
+    currentSupply = supplyStep.totalSupply - penalties.burnedETH;
 
-    // Update state
-    currentStake = Math.max(0, currentStake + expectedGrowth);
-    currentValidators = Math.floor(currentStake / 32);
+    // Update the balance distribution (penalties and forced exits bypass
+    // the queue constraints)
+    distribution = addStake(distribution, deposits.processedETH, undefined, config);
+    distribution = removeStake(distribution, exitedETH);
+    distribution = removeStake(distribution, penalties.stakeLossETH + penalties.forcedExitETH);
 
-    // Decay queues based on churn
-    const dailyChurn = getChurnLimit(currentValidators) * EPOCHS_PER_DAY;
-    currentEntryQueue = Math.max(0, currentEntryQueue - dailyChurn);
-    currentExitQueue = Math.max(0, currentExitQueue - dailyChurn);
+    // Exited stake enters the withdrawal pipeline rather than vanishing
+    pendingWithdrawals = queueWithdrawal(
+      pendingWithdrawals,
+      exitedETH,
+      day,
+      false,
+      config
+    );
+    pendingWithdrawals = queueWithdrawal(
+      pendingWithdrawals,
+      penalties.forcedExitETH,
+      day,
+      true,
+      config
+    );
+
+    // Consolidations merge 0x01 validators into compounding ones
+    const consolidationChurn = getChurnLimits(currentStake, fork, config).consolidation;
+    distribution = consolidate(
+      distribution,
+      consolidationChurn * getEpochsPerDay(config) * consolidationUtilization,
+      undefined,
+      config
+    );
 
-    // Calculate confidence interval based on volatility
-    const daysFromStart = day;
-    const uncertaintyGrowth = Math.sqrt(daysFromStart) * trend.volatility * 32;
-    const confidenceMultiplier = 1.96; // 95% confidence
+    // Compounding validators grow their effective balance from rewards
+    const accrual = accrueRewards(
+      distribution,
+      Math.max(0, consensusAPR) / 100 / 365.25,
+      config
+    );
+    distribution = accrual.distribution;
 
-    const stakeRatio = getStakeRatio(currentStake);
+    currentStake = getTotalEffectiveBalance(distribution);
+
+    const cohortStep = stepCohorts(
+      queues.cohorts,
+      cohortDemands,
+      deposits,
+      exits,
+      shock,
+      currentStake
+    );
+    queues = {
+      pendingDepositsETH: deposits.pendingETH,
+      exitQueueETH: exits.pendingETH,
+      cohorts: cohortStep.states,
+    };
+
+    // Sweep exited validators that have passed the withdrawability delay
+    const averageBalanceETH = getAverageEffectiveBalance(distribution);
+    const sweep = getWithdrawalSweep(
+      distribution,
+      averageBalanceETH > 0 ? getWithdrawableETH(pendingWithdrawals, day) / averageBalanceETH : 0,
+      config
+    );
+    const withdrawal = processWithdrawals(pendingWithdrawals, day, sweep);
+    pendingWithdrawals = withdrawal.pending;
+
+    if (!equilibrium) continue;
+
+    const stakeRatio = getStakeRatio(currentStake, currentSupply);
 
     forecasts.push({
       date: forecastDate,
       totalStakedETH: currentStake,
+      activeValidators: getValidatorCount(distribution),
+      totalSupply: currentSupply,
+      netInflation: supplyStep.netInflation,
       stakeRatio,
       forecastAPR: totalAPR,
-      confidence: {
-        lower: Math.max(0, currentStake - confidenceMultiplier * uncertaintyGrowth),
-        upper: currentStake + confidenceMultiplier * uncertaintyGrowth,
-      },
+      issuanceCurve: issuanceCurve.name,
+      events: shock.active,
+      covariates: projectCovariates(latestCovariates, scenario.covariates, day),
+      executionAPRBand: scalePercentileBand(
+        getExecutionAPRBand(executionPaths, day - 1, config),
+        bandAdjustment * executionDilution
+      ),
       components: {
         protocolBase: consensusAPR,
-        trendAdjustment: expectedGrowth,
-        queueConstraint: maxDailyChange,
+        trendAdjustment: netFlowETH,
+        queueConstraint: netFlowETH >= 0 ? dailyFlowLimit.entry : dailyFlowLimit.exit,
       },
       drivers,
+      equilibrium,
+      pendingDeposits: deposits,
+      exitQueue: exits,
+      cohorts: cohortStep.breakdown,
+      withdrawals: {
+        pendingETH: getPendingWithdrawalETH(pendingWithdrawals),
+        withdrawnETH: withdrawal.withdrawnETH,
+        partialWithdrawalsETH: accrual.skimmedETH,
+        sweepCycleDays: sweep.cycleDays,
+        timeToLiquidity: getTimeToLiquidity(
+          exits.waitDays,
+          sweep,
+          false,
+          config
+        ),
+      },
     });
   }
 
-  // Return monthly snapshots instead of daily
-  return forecasts.filter((_, i) => (i + 1) % 30 === 0 || i === forecasts.length - 1);
+  return granularity === 'epoch'
+    ? expandToEpochs(forecasts, latestState, scenario, config)
+    : forecasts;
+}
+
+/**
+ * Simulate forecast paths and summarise them at each output date
+ *
+ * Paths take the same daily flow step as generateForecast: demand from the
+ * demand curve, or from each cohort's fitted flows, passes through the
+ * deposit queue and exit churn. Each path draws the flow parameters from
+ * the fits' standard errors, adds flow noise (resampled demand fit
+ * residuals, each held for the fit's window as they are window averages,
+ * or the cohorts' daily scatter) and samples a fee regime and execution
+ * yield path. Compounding stake grows from rewards and consolidations as
+ * in the forecast, tracked as a share of each path's stake. The forecast
+ * follows expected execution yield, which skewed fee regimes put above the
+ * median path. Output dates match generateForecast, except that epoch
+ * granularity is reported daily.
+ */
+export function simulateForecastBands(
+  history: HistoricalDataPoint[],
+  monthsAhead: number,
+  scenario: ScenarioParams = DEFAULT_SCENARIO,
+  executionHistory?: ExecutionDataPoint[],
+  options: PathSimulationOptions & ForecastOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): ForecastBand[] {
+  if (history.length === 0) {
+    throw new Error('No historical data provided');
+  }
+
+  const latestState = [...history].sort(
+    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+  )[0];
+  const { regimeParameters, baseRegime, execSnapshot } = getExecutionStart(
+    latestState,
+    scenario,
+    executionHistory,
+    config
+  );
+
+  const { startDate, daysToForecast } = getForecastDays(latestState, monthsAhead);
+  const granularity = options.granularity ?? 'monthly';
+  const seed = options.seed ?? scenario.seed ?? DEFAULT_SIMULATION_SEED;
+  const executionPaths = sampleExecutionYieldPaths(
+    execSnapshot,
+    baseRegime,
+    daysToForecast,
+    regimeParameters,
+    { paths: options.paths, seed }
+  );
+  const pathCount = executionPaths.dailyYield[0]?.length ?? 0;
+
+  // Flows draw from their own stream so execution paths match generateForecast
+  const rng = createRng(seed + 1);
+  const { models: flowModels, queues: initialQueues } = getFlowStart(
+    history,
+    latestState,
+    scenario,
+    config
+  );
+  const demandModel = flowModels.demand;
+  const residuals = demandModel.residuals;
+  const cohortNoiseStd = Math.sqrt(
+    (flowModels.cohorts ?? []).reduce((sum, model) => sum + model.residualStd ** 2, 0)
+  );
+  const noiseDays = flowModels.cohorts ? 1 : demandModel.windowDays;
+  const sampleNoise = () => {
+    if (flowModels.cohorts) return cohortNoiseStd * sampleNormal(rng);
+    return residuals.length > 0 ? residuals[Math.floor(rng() * residuals.length)] : 0;
+  };
+  const covariateModel = fitCovariateTrend(history);
+  const latestCovariates = getLatestCovariates(history);
+
+  const stakeUnitETH = config.minActivationBalance / 1e9;
+  const networkParticipation = latestState.networkParticipation ?? DEFAULT_NETWORK_PARTICIPATION;
+  const mevBoostMultiplier = getMEVBoostMultiplier(scenario.mevBoost);
+  const consolidationUtilization =
+    scenario.consolidationUtilization ?? DEFAULT_CONSOLIDATION_UTILIZATION;
+  const maxDailyChange = getMaxDailyStakeChange(
+    latestState.totalStakedETH,
+    getForkAtDate(latestState.timestamp, config),
+    config
+  );
+
+  const stake = new Float64Array(pathCount).fill(latestState.totalStakedETH);
+  const supply = new Float64Array(pathCount).fill(latestState.totalSupply ?? config.totalEthSupply);
+  const compoundingShare = new Float64Array(pathCount).fill(
+    getCompoundingShare(getInitialDistribution(latestState, config))
+  );
+  const queues = new Array<QueueState>(pathCount).fill(initialQueues);
+  const apr = new Array<number>(pathCount);
+  const noise = new Float64Array(pathCount);
+
+  // Each path draws its flow parameters from the fits' standard errors
+  const pathModels = Array.from({ length: pathCount }, (): FlowModels => ({
+    demand: {
+      ...demandModel,
+      elasticity: demandModel.elasticity + demandModel.elasticityStdErr * sampleNormal(rng),
+      medianReservationSpread: demandModel.medianReservationSpread +
+        demandModel.medianReservationSpreadStdErr * sampleNormal(rng),
+    },
+    cohorts: flowModels.cohorts?.map((model) => ({
+      ...model,
+      trend: model.trend + model.trendStdErr * sampleNormal(rng),
+      aprSensitivity: model.aprSensitivity + model.aprSensitivityStdErr * sampleNormal(rng),
+    })),
+  }));
+
+  const eventDays = getEventBoundaryDays(scenario.events);
+  const bands: ForecastBand[] = [];
+
+  for (let day = 1; day <= daysToForecast; day++) {
+    const forecastDate = addDays(startDate, day);
+    const fork = getForkAtDate(forecastDate, config);
+    const issuanceCurve = getActiveIssuanceCurve(scenario.issuance, forecastDate);
+    const shock = getEventAdjustments(scenario.events, day);
+    const participation = shock.networkParticipation ?? networkParticipation;
+
+    // A forced regime moves every path by the same ratio as the point forecast
+    let regimeShock = 1;
+    if (shock.feeRegime) {
+      const base = forecastExecutionYield(
+        execSnapshot, baseRegime, day, execSnapshot.totalStakedETH, regimeParameters, config
+      );
+      const pinned = forecastExecutionYield(
+        execSnapshot,
+        shock.feeRegime,
+        day,
+        execSnapshot.totalStakedETH,
+        pinRegime(regimeParameters, shock.feeRegime),
+        config
+      );
+      regimeShock = base.dailyYieldETH > 0 ? pinned.dailyYieldETH / base.dailyYieldETH : 1;
+    }
+    const executionMultiplier =
+      scenario.mevMultiplier * shock.executionMultiplier * mevBoostMultiplier * regimeShock;
+    const sharedDemand =
+      getCovariateFlowEffect(covariateModel, latestCovariates, scenario.covariates, day) +
+      (scenario.netFlowBias + shock.netFlowBias) * maxDailyChange.entry * 0.1;
+
+    const redrawNoise = (day - 1) % noiseDays === 0;
+
+    for (let p = 0; p < pathCount; p++) {
+      if (redrawNoise) noise[p] = sampleNoise();
+
+      const consensusBreakdown = applyIssuanceCurve(
+        getConsensusRewards(stake[p], participation, config),
+        stake[p],
+        issuanceCurve,
+        config
+      );
+      const penalties = getDailyPenalties(
+        day,
+        stake[p],
+        participation,
+        consensusBreakdown,
+        scenario.penalties,
+        config
+      );
+      const consensusAPR = consensusBreakdown.total - penalties.penaltyAPR;
+
+      // Execution revenue is a network-wide pool shared by today's stake
+      const executionYield = executionPaths.dailyYield[day - 1][p] *
+        (execSnapshot.totalStakedETH / stake[p]);
+      const executionAPR = (executionYield * 365 / stakeUnitETH) * 100 * executionMultiplier;
+      apr[p] = consensusAPR + executionAPR;
+
+      const { deposits, exits, cohortDemands } = stepStakingFlows(
+        queues[p],
+        pathModels[p],
+        apr[p],
+        stake[p],
+        supply[p],
+        sharedDemand + noise[p],
+        shock,
+        fork,
+        config
+      );
+
+      const regime = FEE_REGIMES[executionPaths.regimes[day - 1][p]];
+      supply[p] = stepSupply(supply[p], stake[p], consensusAPR, shock.feeRegime ?? regime)
+        .totalSupply - penalties.burnedETH;
+
+      // Flows and penalties leave the compounding share unchanged;
+      // consolidations raise it and compounding balances accrue rewards
+      const consolidationChurn = getChurnLimits(stake[p], fork, config).consolidation;
+      let stakeETH = Math.max(
+        0,
+        stake[p] + deposits.processedETH - exits.processedETH -
+          penalties.stakeLossETH - penalties.forcedExitETH
+      );
+      let compoundingETH = stakeETH * compoundingShare[p];
+      compoundingETH += Math.min(
+        consolidationChurn * getEpochsPerDay(config) * consolidationUtilization,
+        stakeETH - compoundingETH
+      );
+      const accruedETH = compoundingETH * Math.max(0, consensusAPR) / 100 / 365.25;
+      stakeETH += accruedETH;
+      compoundingShare[p] = stakeETH > 0 ? (compoundingETH + accruedETH) / stakeETH : 0;
+      stake[p] = stakeETH;
+
+      queues[p] = {
+        pendingDepositsETH: deposits.pendingETH,
+        exitQueueETH: exits.pendingETH,
+        cohorts: flowModels.cohorts
+          ? stepCohorts(queues[p].cohorts, cohortDemands, deposits, exits, shock, stakeETH).states
+          : queues[p].cohorts,
+      };
+    }
+
+    if (isOutputDay(forecastDate, day, daysToForecast, eventDays, granularity)) {
+      bands.push({
+        date: forecastDate,
+        day,
+        totalStakedETH: getPercentileBand(Array.from(stake)),
+        stakeRatio: getPercentileBand(
+          Array.from(stake, (s, p) => getStakeRatio(s, supply[p]))
+        ),
+        forecastAPR: getPercentileBand(apr),
+      });
+    }
+  }
+
+  return bands;
 }
 
 /**
  * Generate scenario comparison
+ * Covariate paths are a market view shared by all three scenarios
  */
 export function compareScenarios(
   history: HistoricalDataPoint[],
   monthsAhead: number,
-  executionHistory?: ExecutionDataPoint[]
+  executionHistory?: ExecutionDataPoint[],
+  issuance: ScenarioIssuancePolicies = {},
+  covariates: CovariatePath[] = [],
+  options: ForecastOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
 ): {
   baseline: ForecastPoint[];
   bullish: ForecastPoint[];
   bearish: ForecastPoint[];
 } {
-  const baseline = generateForecast(history, monthsAhead, DEFAULT_SCENARIO, executionHistory);
+  const baseline = generateForecast(
+    history,
+    monthsAhead,
+    { ...DEFAULT_SCENARIO, issuance: issuance.baseline, covariates },
+    executionHistory,
+    options,
+    config
+  );
 
   const bullish = generateForecast(history, monthsAhead, {
     netFlowBias: 0.5,
     mevMultiplier: 1.3,
     queuePressure: 1.5,
     feeRegimeBias: 'elevated', // Bullish assumes elevated fee environment
-  }, executionHistory);
+    issuance: issuance.bullish,
+    covariates,
+  }, executionHistory, options, config);
 
   const bearish = generateForecast(history, monthsAhead, {
     netFlowBias: -0.5,
     mevMultiplier: 0.7,
     queuePressure: 0.5,
     feeRegimeBias: 'calm', // Bearish assumes calm fee environment
-  }, executionHistory);
+    issuance: issuance.bearish,
+    covariates,
+  }, executionHistory, options, config);
 
   return { baseline, bullish, bearish };
 }
 
 // Re-export execution types for convenience
-export type { FeeRegime, ExecutionDataPoint } from './execution';
-export { detectRegime, generateMockExecutionHistory } from './execution';
+export type {
+  FeeRegime,
+  ExecutionDataPoint,
+  ExecutionComponentModel,
+  ExecutionSnapshot,
+  RegimeParameters,
+  RegimeProbabilities,
+} from './execution';
+export type { ConsensusRewardBreakdown } from './rewards';
+export type { EquilibriumResult } from './equilibrium';
+export type { PenaltyScenario } from './penalties';
+export type { EffectiveBalanceDistribution } from './balances';
+export type { ChainConfig } from './config';
+export type { TimeToLiquidity } from './withdrawals';
+export type { DepositQueueStep } from './deposits';
+export type { ExitQueueStep } from './exits';
+export type { IssuanceCurve, IssuancePolicy } from './issuance';
+export type { PercentileBand, ExecutionAPRBand, PathSimulationOptions } from './simulation';
+export type { MEVBoostParams, MEVBoostScenario, RelayPayload } from './mevboost';
+export type { ForecastEvent } from './events';
+export type { DemandModel, DemandFitOptions } from './demand';
+export type {
+  CovariateName,
+  CovariateValues,
+  CovariatePath,
+  CovariateTrendModel,
+} from './covariates';
+export type {
+  StakerCohort,
+  CohortValues,
+  CohortStakeRecord,
+  CohortFlowModel,
+  CohortStep,
+  CohortBreakdown,
+} from './cohorts';
+export type {
+  EntityShareModel,
+  ConcentrationSnapshot,
+  ConcentrationPoint,
+  ConcentrationForecast,
+  ConcentrationOptions,
+  ThresholdProbability,
+  ThresholdRisk,
+} from './concentration';
+export type {
+  OperatorSize,
+  OperatorVarianceOptions,
+  OperatorRewardDistribution,
+  RewardPercentiles,
+} from './variance';
+export {
+  CURRENT_ISSUANCE_CURVE,
+  createScaledIssuanceCurve,
+  createSoftCapIssuanceCurve,
+  createCustomIssuanceCurve,
+} from './issuance';
+export { detectRegime, generateMockExecutionHistory, getExecutionSnapshot } from './execution';
+export { calibrateRegimes, fitRegimeModel } from './calibration';
+export { getOperatorRewardDistribution } from './variance';
+export { calibrateDemand, fitDemandModel, getNetFlowDemand } from './demand';
+export { fitCovariateTrend, createETHPriceMove } from './covariates';
+export {
+  STAKER_COHORTS,
+  COHORT_LABELS,
+  attachCohortStake,
+  fitCohortFlows,
+  loadCohortStake,
+  parseCohortStakeCSV,
+} from './cohorts';
+export {
+  CONSENSUS_THRESHOLDS,
+  fitEntityShares,
+  forecastConcentration,
+  getConcentrationSnapshot,
+} from './concentration';
+export {
+  DEFAULT_MEV_BOOST_PARAMS,
+  calibrateMEVBoost,
+  loadRelayPayloads,
+  getMEVBoostMultiplier,
+} from './mevboost';
+export {
+  createMarketCrashEvent,
+  createLSTDepegEvent,
+  createLargeUnstakeEvent,
+} from './events';
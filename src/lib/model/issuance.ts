@@ -0,0 +1,121 @@
+/**
+ * Issuance Curve Policies
+ *
+ * Pluggable reward curves for simulating issuance changes. Each curve maps
+ * total stake to the consensus APR a fully participating validator earns;
+ * the forecast rescales the Altair+ reward breakdown to match, so
+ * participation and penalties behave as they do under today's curve.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import { type ConsensusRewardBreakdown, getConsensusRewards } from './rewards';
+
+/**
+ * Consensus reward curve
+ */
+export interface IssuanceCurve {
+  name: string;
+  // Consensus APR (%) at full participation for a total stake level
+  getYield: (totalStakedETH: number, config: ChainConfig) => number;
+}
+
+/**
+ * Issuance curve that takes effect from a given date
+ */
+export interface IssuancePolicy {
+  curve: IssuanceCurve;
+  activationDate?: Date; // Active from the start of the forecast if absent
+}
+
+/**
+ * Today's curve: yield falls with 1/sqrt(total stake)
+ */
+export const CURRENT_ISSUANCE_CURVE: IssuanceCurve = {
+  name: 'Current (1/√stake)',
+  getYield: (totalStakedETH, config) => getConsensusRewards(totalStakedETH, 1, config).total,
+};
+
+/**
+ * Current curve scaled by a constant factor (e.g. 0.7 for a 30% cut)
+ */
+export function createScaledIssuanceCurve(scale: number): IssuanceCurve {
+  if (scale < 0) {
+    throw new Error('Issuance scale must be non-negative');
+  }
+  return {
+    name: `Scaled issuance (${Math.round(scale * 100)}%)`,
+    getYield: (totalStakedETH, config) =>
+      CURRENT_ISSUANCE_CURVE.getYield(totalStakedETH, config) * scale,
+  };
+}
+
+/**
+ * Current curve up to a threshold, then tapering linearly to zero at the cap
+ */
+export function createSoftCapIssuanceCurve(
+  taperStartETH: number,
+  capETH: number
+): IssuanceCurve {
+  if (capETH <= taperStartETH) {
+    throw new Error('Issuance cap must be above the taper start');
+  }
+  return {
+    name: `Soft cap (${(capETH / 1_000_000).toFixed(0)}M ETH)`,
+    getYield: (totalStakedETH, config) => {
+      const taper = Math.min(
+        1,
+        Math.max(0, (capETH - totalStakedETH) / (capETH - taperStartETH))
+      );
+      return CURRENT_ISSUANCE_CURVE.getYield(totalStakedETH, config) * taper;
+    },
+  };
+}
+
+/**
+ * Curve from an arbitrary yield formula (stake in ETH to APR %)
+ */
+export function createCustomIssuanceCurve(
+  name: string,
+  formula: (totalStakedETH: number) => number
+): IssuanceCurve {
+  return {
+    name,
+    getYield: (totalStakedETH) => Math.max(0, formula(totalStakedETH)),
+  };
+}
+
+/**
+ * Curve in force on a given date
+ */
+export function getActiveIssuanceCurve(
+  policy: IssuancePolicy | undefined,
+  date: Date
+): IssuanceCurve {
+  if (!policy) return CURRENT_ISSUANCE_CURVE;
+  if (policy.activationDate && date < policy.activationDate) return CURRENT_ISSUANCE_CURVE;
+  return policy.curve;
+}
+
+/**
+ * Rescale a reward breakdown from today's curve to another curve
+ */
+export function applyIssuanceCurve(
+  breakdown: ConsensusRewardBreakdown,
+  totalStakedETH: number,
+  curve: IssuanceCurve,
+  config: ChainConfig = MAINNET_CONFIG
+): ConsensusRewardBreakdown {
+  if (curve === CURRENT_ISSUANCE_CURVE) return breakdown;
+
+  const currentYield = CURRENT_ISSUANCE_CURVE.getYield(totalStakedETH, config);
+  const scale = currentYield > 0 ? curve.getYield(totalStakedETH, config) / currentYield : 0;
+
+  return {
+    source: breakdown.source * scale,
+    target: breakdown.target * scale,
+    head: breakdown.head * scale,
+    syncCommittee: breakdown.syncCommittee * scale,
+    proposer: breakdown.proposer * scale,
+    total: breakdown.total * scale,
+  };
+}
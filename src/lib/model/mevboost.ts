@@ -0,0 +1,260 @@
+/**
+ * MEV-Boost Market Model
+ *
+ * Execution yield input layer for proposer-builder separation: how many
+ * proposers use MEV-Boost, which relays deliver their blocks, and how much
+ * of a builder's block value reaches the proposer. Parameters can be
+ * calibrated from local dumps of relay `proposer_payload_delivered` data
+ * (JSON or CSV) and shocked per scenario to model relay outages or
+ * censorship-driven changes in adoption.
+ */
+
+import { parseCSVRecords } from './csv';
+
+/**
+ * Observed MEV-Boost market
+ */
+export interface MEVBoostParams {
+  adoption: number; // Share of blocks built through MEV-Boost (0-1)
+  relayShares: Record<string, number>; // Share of MEV-Boost blocks per relay (sums to 1)
+  proposerPaymentShare: number; // Share of builder block value paid to the proposer (0-1)
+  averageMEVRewardPerBlock: number; // Proposer payment per MEV-Boost block (ETH)
+}
+
+/**
+ * Changes to the MEV-Boost market in a scenario
+ */
+export interface MEVBoostScenario {
+  market?: MEVBoostParams; // Market the execution history reflects (defaults to DEFAULT_MEV_BOOST_PARAMS)
+  adoptionChange?: number; // Absolute change in adoption, e.g. -0.2
+  offlineRelays?: string[]; // Relays that stop delivering blocks
+  proposerPaymentShare?: number; // Override the builder payment share
+}
+
+/**
+ * One delivered payload from a relay data dump
+ */
+export interface RelayPayload {
+  relay: string;
+  slot: number;
+  valueETH: number; // Paid to the proposer
+  blockValueETH?: number; // Builder's full block value, when known
+}
+
+/**
+ * Calibration settings
+ */
+export interface MEVBoostCalibrationOptions {
+  totalSlots?: number; // Proposed blocks in the covered range (defaults to the slot span)
+}
+
+/**
+ * Typical mainnet MEV-Boost market; relay shares are unknown until calibrated
+ */
+export const DEFAULT_MEV_BOOST_PARAMS: MEVBoostParams = {
+  adoption: 0.9,
+  relayShares: {},
+  proposerPaymentShare: 0.9,
+  averageMEVRewardPerBlock: 0.05,
+};
+
+// MEV a locally built block captures relative to a builder block
+const LOCAL_BLOCK_MEV_CAPTURE = 0.3;
+
+const WEI_PER_ETH = 1e18;
+
+// Errors name the payload by `location`: its index in JSON, its line in CSV
+function toNumber(value: unknown, field: string, location: string): number {
+  const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid relay payload ${location}: "${field}" must be a non-negative number`);
+  }
+  return parsed;
+}
+
+/**
+ * Build a payload from a parsed record
+ * Accepts `value` in wei (as relays report it) or `valueETH`
+ */
+function toRelayPayload(
+  record: unknown,
+  location: string,
+  defaultRelay?: string
+): RelayPayload {
+  if (typeof record !== 'object' || record === null) {
+    throw new Error(`Invalid relay payload ${location}: expected an object`);
+  }
+  const fields = record as Record<string, unknown>;
+
+  const relay = fields.relay ?? defaultRelay;
+  if (typeof relay !== 'string' || relay.trim() === '') {
+    throw new Error(`Invalid relay payload ${location}: missing "relay"`);
+  }
+
+  let valueETH: number;
+  if (fields.valueETH !== undefined && fields.valueETH !== '') {
+    valueETH = toNumber(fields.valueETH, 'valueETH', location);
+  } else if (fields.value !== undefined && fields.value !== '') {
+    valueETH = toNumber(fields.value, 'value', location) / WEI_PER_ETH;
+  } else {
+    throw new Error(`Invalid relay payload ${location}: missing "value" or "valueETH"`);
+  }
+
+  const payload: RelayPayload = {
+    relay: relay.trim(),
+    slot: toNumber(fields.slot, 'slot', location),
+    valueETH,
+  };
+  if (fields.blockValueETH !== undefined && fields.blockValueETH !== '') {
+    payload.blockValueETH = toNumber(fields.blockValueETH, 'blockValueETH', location);
+  }
+  return payload;
+}
+
+/**
+ * Parse relay payloads from JSON
+ * Accepts an array of payloads, or an object mapping relay names to the
+ * arrays their data API returned
+ */
+export function parseRelayPayloadsJSON(json: unknown): RelayPayload[] {
+  if (Array.isArray(json)) {
+    return json.map((record, i) => toRelayPayload(record, `${i}`));
+  }
+
+  if (typeof json === 'object' && json !== null) {
+    return Object.entries(json as Record<string, unknown>).flatMap(([relay, records]) => {
+      if (!Array.isArray(records)) {
+        throw new Error(`Invalid relay payloads for "${relay}": expected an array`);
+      }
+      return records.map((record, i) => toRelayPayload(record, `${i} for "${relay}"`, relay));
+    });
+  }
+
+  throw new Error('Invalid relay payloads: expected an array or an object of arrays');
+}
+
+/**
+ * Parse relay payloads from CSV with a header row
+ * Needs `relay`, `slot` and `value` (wei) or `valueETH` columns; quoted
+ * fields may contain commas. Errors name the file line.
+ */
+export function parseRelayPayloadsCSV(text: string): RelayPayload[] {
+  return parseCSVRecords(text).map(({ line, values }) => toRelayPayload(values, `on line ${line}`));
+}
+
+/**
+ * Load relay payloads from a JSON or CSV dump
+ * Accepts the raw text or a File/Blob (e.g. from a file input); the format
+ * is taken from the file name when not given
+ */
+export async function loadRelayPayloads(
+  source: string | Blob,
+  format?: 'json' | 'csv'
+): Promise<RelayPayload[]> {
+  const text = typeof source === 'string' ? source : await source.text();
+  const name = typeof source !== 'string' && 'name' in source ? String(source.name) : '';
+  const resolved = format ?? (name.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+
+  if (resolved === 'csv') return parseRelayPayloadsCSV(text);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid relay payloads: ${error instanceof Error ? error.message : 'malformed JSON'}`
+    );
+  }
+  return parseRelayPayloadsJSON(json);
+}
+
+/**
+ * Calibrate the MEV-Boost market from delivered payloads
+ *
+ * A slot delivered by several relays (multi-relay registrations) counts
+ * once for adoption and is split evenly between those relays.
+ */
+export function calibrateMEVBoost(
+  payloads: RelayPayload[],
+  options: MEVBoostCalibrationOptions = {}
+): MEVBoostParams {
+  if (payloads.length === 0) {
+    throw new Error('Need at least one relay payload to calibrate MEV-Boost');
+  }
+
+  const bySlot = new Map<number, RelayPayload[]>();
+  for (const payload of payloads) {
+    bySlot.set(payload.slot, [...(bySlot.get(payload.slot) ?? []), payload]);
+  }
+
+  const slots = [...bySlot.keys()];
+  const slotSpan = Math.max(...slots) - Math.min(...slots) + 1;
+  const totalSlots = options.totalSlots ?? slotSpan;
+  if (totalSlots <= 0) {
+    throw new Error('Total slots must be positive');
+  }
+
+  const relayCounts: Record<string, number> = {};
+  let totalPaymentETH = 0;
+  for (const delivered of bySlot.values()) {
+    for (const payload of delivered) {
+      relayCounts[payload.relay] = (relayCounts[payload.relay] ?? 0) + 1 / delivered.length;
+    }
+    totalPaymentETH += Math.max(...delivered.map((p) => p.valueETH));
+  }
+
+  const relayShares = Object.fromEntries(
+    Object.entries(relayCounts).map(([relay, count]) => [relay, count / bySlot.size])
+  );
+
+  // Payment share is only observable where the builder's block value is known
+  const withBlockValue = payloads.filter((p) => p.blockValueETH && p.blockValueETH > 0);
+  const proposerPaymentShare = withBlockValue.length > 0
+    ? Math.min(
+      1,
+      withBlockValue.reduce((sum, p) => sum + p.valueETH, 0) /
+        withBlockValue.reduce((sum, p) => sum + (p.blockValueETH ?? 0), 0)
+    )
+    : DEFAULT_MEV_BOOST_PARAMS.proposerPaymentShare;
+
+  return {
+    adoption: Math.min(1, bySlot.size / totalSlots),
+    relayShares,
+    proposerPaymentShare,
+    averageMEVRewardPerBlock: totalPaymentETH / bySlot.size,
+  };
+}
+
+/**
+ * Share of blocks still built through MEV-Boost after a scenario's shocks
+ * Proposers whose relay goes offline fall back to local block building
+ */
+export function getEffectiveMEVBoostAdoption(scenario: MEVBoostScenario = {}): number {
+  const market = scenario.market ?? DEFAULT_MEV_BOOST_PARAMS;
+  const offlineShare = (scenario.offlineRelays ?? []).reduce(
+    (sum, relay) => sum + (market.relayShares[relay] ?? 0),
+    0
+  );
+  const adoption = market.adoption + (scenario.adoptionChange ?? 0);
+  return Math.min(1, Math.max(0, adoption)) * Math.max(0, 1 - offlineShare);
+}
+
+/**
+ * Scenario MEV relative to the market the execution history reflects
+ *
+ * MEV-Boost blocks pay the proposer its share of the builder's value;
+ * locally built blocks capture only part of the available MEV.
+ */
+export function getMEVBoostMultiplier(scenario: MEVBoostScenario = {}): number {
+  const market = scenario.market ?? DEFAULT_MEV_BOOST_PARAMS;
+  const proposerValue = (adoption: number, paymentShare: number) =>
+    adoption * paymentShare + (1 - adoption) * LOCAL_BLOCK_MEV_CAPTURE;
+
+  const baseline = proposerValue(market.adoption, market.proposerPaymentShare);
+  if (baseline <= 0) return 1;
+
+  return proposerValue(
+    getEffectiveMEVBoostAdoption(scenario),
+    scenario.proposerPaymentShare ?? market.proposerPaymentShare
+  ) / baseline;
+}
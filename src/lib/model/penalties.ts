@@ -0,0 +1,170 @@
+/**
+ * Penalty Model
+ *
+ * Models the negative side of consensus rewards: missed-attestation
+ * penalties, correlated slashing events and the inactivity leak that
+ * kicks in when finality stalls. Used to stress-test forecasts against
+ * client bugs and mass-slashing events.
+ */
+
+import { WEIGHT_DENOMINATOR, TIMELY_SOURCE_WEIGHT, TIMELY_TARGET_WEIGHT } from './constants';
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerDay, getEpochsPerYear } from './config';
+import { type ConsensusRewardBreakdown, getBaseRewardPerIncrement } from './rewards';
+
+/**
+ * Optional stress inputs for a forecast scenario
+ */
+export interface PenaltyScenario {
+  slashingEventETH?: number; // Effective balance slashed in one correlated event
+  slashingEventDay?: number; // Forecast day of the slashing event (default 1)
+  nonFinalityEpochs?: number; // Length of a finality stall in epochs
+  nonFinalityStartDay?: number; // Forecast day the stall begins (default 1)
+  offlineShareDuringLeak?: number; // Share of stake offline during the stall (default 0.35)
+}
+
+/**
+ * Slashing penalty breakdown in ETH
+ */
+export interface SlashingPenalty {
+  initialPenaltyETH: number;
+  correlationPenaltyETH: number;
+  totalPenaltyETH: number;
+}
+
+/**
+ * Penalty effects for a single forecast day
+ */
+export interface DailyPenalty {
+  penaltyAPR: number; // Reduction in network-average consensus APR (%)
+  stakeLossETH: number; // ETH burned from active balances during the day
+  forcedExitETH: number; // Slashed stake forced out of the active set
+  burnedETH: number; // Slashing penalties destroyed during the day (not part of penaltyAPR)
+  inLeak: boolean;
+}
+
+const DEFAULT_OFFLINE_SHARE_DURING_LEAK = 0.35;
+
+/**
+ * Expected APR lost to missed source and target votes
+ * Head votes are not penalized when missed
+ */
+export function getMissedAttestationPenaltyAPR(
+  totalStakedETH: number,
+  networkParticipation: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const baseReward = getBaseRewardPerIncrement(totalStakedETH, config);
+  const incrementETH = config.effectiveBalanceIncrement / 1e9;
+  const penaltyPerEpoch =
+    (baseReward * (TIMELY_SOURCE_WEIGHT + TIMELY_TARGET_WEIGHT) * (1 - networkParticipation)) /
+    WEIGHT_DENOMINATOR /
+    incrementETH;
+  return penaltyPerEpoch * getEpochsPerYear(config) * 100;
+}
+
+/**
+ * Calculate the total penalty for a correlated slashing event
+ * Initial penalty is applied immediately; the correlation penalty scales
+ * with the total slashed in the window and lands halfway through it
+ */
+export function getSlashingPenalty(
+  slashedETH: number,
+  totalStakedETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): SlashingPenalty {
+  if (slashedETH <= 0 || totalStakedETH <= 0) {
+    return { initialPenaltyETH: 0, correlationPenaltyETH: 0, totalPenaltyETH: 0 };
+  }
+
+  const initialPenaltyETH = slashedETH / config.minSlashingPenaltyQuotient;
+  const adjustedSlashingBalance = Math.min(
+    slashedETH * config.proportionalSlashingMultiplier,
+    totalStakedETH
+  );
+  const correlationPenaltyETH = (slashedETH * adjustedSlashingBalance) / totalStakedETH;
+
+  return {
+    initialPenaltyETH,
+    correlationPenaltyETH,
+    totalPenaltyETH: initialPenaltyETH + correlationPenaltyETH,
+  };
+}
+
+/**
+ * Cumulative inactivity-leak penalty as a share of an offline validator's balance
+ * Inactivity scores grow by INACTIVITY_SCORE_BIAS each leaking epoch, and the
+ * per-epoch penalty is balance * score / (bias * quotient)
+ */
+export function getInactivityLeakFraction(
+  nonFinalityEpochs: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const leakEpochs = Math.max(0, nonFinalityEpochs - config.minEpochsToInactivityPenalty);
+  const scoreSum = (config.inactivityScoreBias * leakEpochs * (leakEpochs + 1)) / 2;
+  const fraction = scoreSum / (config.inactivityScoreBias * config.inactivityPenaltyQuotient);
+  return Math.min(1, fraction);
+}
+
+/**
+ * Calculate penalty effects for one forecast day
+ */
+export function getDailyPenalties(
+  day: number,
+  totalStakedETH: number,
+  networkParticipation: number,
+  consensusRewards: ConsensusRewardBreakdown,
+  scenario: PenaltyScenario = {},
+  config: ChainConfig = MAINNET_CONFIG
+): DailyPenalty {
+  const epochsPerDay = getEpochsPerDay(config);
+  let penaltyAPR = getMissedAttestationPenaltyAPR(totalStakedETH, networkParticipation, config);
+  let stakeLossETH = 0;
+  let forcedExitETH = 0;
+  let burnedETH = 0;
+  let inLeak = false;
+
+  // Correlated slashing: initial penalty and forced exit on the event day,
+  // correlation penalty half a slashings vector later
+  if (scenario.slashingEventETH) {
+    const eventDay = scenario.slashingEventDay ?? 1;
+    const penalty = getSlashingPenalty(scenario.slashingEventETH, totalStakedETH, config);
+    const correlationDay =
+      eventDay + Math.round(config.epochsPerSlashingsVector / 2 / epochsPerDay);
+
+    if (day === eventDay) {
+      stakeLossETH += penalty.initialPenaltyETH;
+      burnedETH += penalty.initialPenaltyETH;
+      forcedExitETH += scenario.slashingEventETH - penalty.initialPenaltyETH;
+    }
+    if (day === correlationDay) {
+      // Slashed validators have already left the active set by now
+      burnedETH += penalty.correlationPenaltyETH;
+    }
+  }
+
+  // Inactivity leak: attestation rewards are suspended for everyone and
+  // offline validators bleed balance quadratically
+  if (scenario.nonFinalityEpochs) {
+    const startDay = scenario.nonFinalityStartDay ?? 1;
+    const elapsedBefore = (day - startDay) * epochsPerDay;
+    const elapsedAfter = Math.min(scenario.nonFinalityEpochs, elapsedBefore + epochsPerDay);
+
+    if (elapsedBefore >= 0 && elapsedBefore < scenario.nonFinalityEpochs) {
+      inLeak = true;
+      const offlineShare = scenario.offlineShareDuringLeak ?? DEFAULT_OFFLINE_SHARE_DURING_LEAK;
+      const leakFraction =
+        getInactivityLeakFraction(elapsedAfter, config) -
+        getInactivityLeakFraction(elapsedBefore, config);
+      const leakETH = totalStakedETH * offlineShare * leakFraction;
+
+      stakeLossETH += leakETH;
+      penaltyAPR +=
+        consensusRewards.source +
+        consensusRewards.target +
+        consensusRewards.head +
+        (leakETH / totalStakedETH) * (getEpochsPerYear(config) / epochsPerDay) * 100;
+    }
+  }
+
+  return { penaltyAPR, stakeLossETH, forcedExitETH, burnedETH, inLeak };
+}
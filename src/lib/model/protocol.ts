@@ -6,16 +6,19 @@
  */
 
 import {
-  BASE_REWARD_FACTOR,
-  BASE_REWARDS_PER_EPOCH,
-  EPOCHS_PER_YEAR,
-  MAX_EFFECTIVE_BALANCE,
-  EFFECTIVE_BALANCE_INCREMENT,
-  MIN_PER_EPOCH_CHURN_LIMIT,
-  CHURN_LIMIT_QUOTIENT,
-  SECONDS_PER_EPOCH,
-  TOTAL_ETH_SUPPLY,
-} from './constants';
+  type ChainConfig,
+  MAINNET_CONFIG,
+  getSecondsPerEpoch,
+  getEpochsPerDay,
+  getEpochsPerYear,
+} from './config';
+import { type Fork, type ChurnLimits, getChurnLimits } from './churn';
+import { getConsensusRewards } from './rewards';
+import { type IssuanceCurve, CURRENT_ISSUANCE_CURVE } from './issuance';
+import { getMissedAttestationPenaltyAPR } from './penalties';
+import { estimateBalanceDistribution } from './balances';
+import { getWithdrawalSweep, getTimeToLiquidity } from './withdrawals';
+import { DEFAULT_MEV_BOOST_PARAMS } from './mevboost';
 
 /**
  * Calculate the base reward per validator per epoch
@@ -23,37 +26,30 @@ import {
  */
 export function getBaseRewardPerEpoch(
   effectiveBalance: number,
-  totalEffectiveBalance: number
+  totalEffectiveBalance: number,
+  config: ChainConfig = MAINNET_CONFIG
 ): number {
   const effectiveBalanceGwei = effectiveBalance * 1e9;
   const totalEffectiveBalanceGwei = totalEffectiveBalance * 1e9;
 
   // Base reward formula from spec
-  const baseReward = (effectiveBalanceGwei * BASE_REWARD_FACTOR) /
+  const baseReward = (effectiveBalanceGwei * config.baseRewardFactor) /
     Math.floor(Math.sqrt(totalEffectiveBalanceGwei));
 
   return baseReward / 1e9; // Convert back to ETH
 }
 
-/**
- * Empirical calibration constant for consensus APR
- * Derived from historical data: APR ≈ k / sqrt(totalStakedETH)
- * At 34.5M ETH staked, consensus APR ≈ 2.9%
- * k = 2.9 * sqrt(34_500_000) ≈ 17,034
- */
-const CONSENSUS_APR_COEFFICIENT = 17034;
-
 /**
  * Calculate theoretical consensus layer APR for a validator
- * Uses empirically-calibrated inverse sqrt relationship
+ * Assumes perfect participation; defaults to today's reward curve
  */
-export function getTheoreticalAPR(totalStakedETH: number): number {
+export function getTheoreticalAPR(
+  totalStakedETH: number,
+  curve: IssuanceCurve = CURRENT_ISSUANCE_CURVE,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
   if (totalStakedETH <= 0) return 0;
-
-  // Empirical formula: APR ≈ k / sqrt(totalStaked)
-  // This accounts for the actual reward distribution mechanism
-  // including attestation, proposer, and sync committee rewards
-  return CONSENSUS_APR_COEFFICIENT / Math.sqrt(totalStakedETH);
+  return curve.getYield(totalStakedETH, config);
 }
 
 /**
@@ -63,90 +59,89 @@ export function getTheoreticalAPR(totalStakedETH: number): number {
 export function getRealisticAPR(
   totalStakedETH: number,
   networkParticipation: number = 0.995, // 99.5% typical
-  mevBoostAdoption: number = 0.90,
-  averageMEVRewardPerBlock: number = 0.05 // ETH
+  mevBoostAdoption: number = DEFAULT_MEV_BOOST_PARAMS.adoption, // calibrateMEVBoost fits both
+  averageMEVRewardPerBlock: number = DEFAULT_MEV_BOOST_PARAMS.averageMEVRewardPerBlock, // ETH
+  config: ChainConfig = MAINNET_CONFIG
 ): number {
-  // Base protocol APR
-  const baseAPR = getTheoreticalAPR(totalStakedETH);
-
-  // Adjust for network participation (attestation effectiveness)
-  const adjustedAPR = baseAPR * networkParticipation;
+  // Base protocol APR adjusted for network participation (attestation effectiveness)
+  // net of the penalties charged for missed source and target votes
+  const adjustedAPR =
+    getConsensusRewards(totalStakedETH, networkParticipation, config).total -
+    getMissedAttestationPenaltyAPR(totalStakedETH, networkParticipation, config);
 
   // Add MEV rewards estimate
-  // Average blocks per year per validator = (365.25 * 24 * 60 * 60) / (12 * numValidators)
-  const numValidators = Math.floor(totalStakedETH / 32);
-  const slotsPerYear = EPOCHS_PER_YEAR * 32;
-  const blocksPerValidatorPerYear = slotsPerYear / numValidators;
-  const mevAPR = (blocksPerValidatorPerYear * averageMEVRewardPerBlock * mevBoostAdoption / 32) * 100;
+  // Proposals are weighted by effective balance, so MEV accrues per ETH staked
+  // regardless of how the stake is split across validators
+  const slotsPerYear = getEpochsPerYear(config) * config.slotsPerEpoch;
+  const mevAPR = (slotsPerYear * averageMEVRewardPerBlock * mevBoostAdoption / totalStakedETH) * 100;
 
   return adjustedAPR + mevAPR;
 }
 
-/**
- * Calculate validator churn limit per epoch
- * This determines how fast validators can enter or exit the network
- */
-export function getChurnLimit(activeValidatorCount: number): number {
-  return Math.max(
-    MIN_PER_EPOCH_CHURN_LIMIT,
-    Math.floor(activeValidatorCount / CHURN_LIMIT_QUOTIENT)
-  );
-}
-
 /**
  * Calculate the activation queue wait time in epochs
+ * Queue length is the ETH waiting to be activated
  */
 export function getActivationQueueWaitTime(
-  queueLength: number,
-  activeValidatorCount: number
+  queueLengthETH: number,
+  totalActiveBalanceETH: number,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
 ): number {
-  const churnLimit = getChurnLimit(activeValidatorCount);
-  return Math.ceil(queueLength / churnLimit);
+  const churn = getChurnLimits(totalActiveBalanceETH, fork, config);
+  return Math.ceil(queueLengthETH / churn.activation);
 }
 
 /**
  * Calculate the exit queue wait time in epochs
+ * Queue length is the ETH waiting to exit
  */
 export function getExitQueueWaitTime(
-  queueLength: number,
-  activeValidatorCount: number
+  queueLengthETH: number,
+  totalActiveBalanceETH: number,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
 ): number {
-  const churnLimit = getChurnLimit(activeValidatorCount);
-  return Math.ceil(queueLength / churnLimit);
+  const churn = getChurnLimits(totalActiveBalanceETH, fork, config);
+  return Math.ceil(queueLengthETH / churn.exit);
 }
 
 /**
  * Convert epochs to days
  */
-export function epochsToDays(epochs: number): number {
-  return (epochs * SECONDS_PER_EPOCH) / (24 * 60 * 60);
+export function epochsToDays(epochs: number, config: ChainConfig = MAINNET_CONFIG): number {
+  return (epochs * getSecondsPerEpoch(config)) / (24 * 60 * 60);
 }
 
 /**
  * Calculate stake ratio (% of total ETH staked)
  */
-export function getStakeRatio(totalStakedETH: number): number {
-  return (totalStakedETH / TOTAL_ETH_SUPPLY) * 100;
+export function getStakeRatio(
+  totalStakedETH: number,
+  totalSupply: number = MAINNET_CONFIG.totalEthSupply
+): number {
+  return (totalStakedETH / totalSupply) * 100;
 }
 
 /**
- * Calculate equilibrium stake ratio for a given target APR
- * Uses the inverse of the APR formula
+ * Calculate equilibrium stake for a given target consensus APR
+ * Inverts getTheoreticalAPR; see equilibrium.ts for the full solver
+ * including execution yield
  */
-export function getEquilibriumStakeForAPR(targetAPR: number): number {
-  if (targetAPR <= 0) return TOTAL_ETH_SUPPLY;
-
-  // Derive from APR formula:
-  // APR = (32 * BASE_REWARD_FACTOR * 4 * EPOCHS_PER_YEAR) / (32 * sqrt(totalStake * 1e9)) * 100
-  // Solving for totalStake:
-  // sqrt(totalStake * 1e9) = (32 * BASE_REWARD_FACTOR * 4 * EPOCHS_PER_YEAR * 100) / (32 * APR)
-  // totalStake = ((BASE_REWARD_FACTOR * 4 * EPOCHS_PER_YEAR * 100) / APR)^2 / 1e9
-
-  const numerator = BASE_REWARD_FACTOR * BASE_REWARDS_PER_EPOCH * EPOCHS_PER_YEAR * 100;
-  const sqrtTotalStakeGwei = numerator / targetAPR;
-  const totalStakeGwei = sqrtTotalStakeGwei * sqrtTotalStakeGwei;
-
-  return totalStakeGwei / 1e9; // Convert from Gwei to ETH
+export function getEquilibriumStakeForAPR(
+  targetAPR: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  if (targetAPR <= 0) return config.totalEthSupply;
+
+  // Consensus APR scales with 1/sqrt(totalStake), so APR * sqrt(stake) is
+  // nearly constant; re-anchor at each estimate to absorb Gwei rounding
+  let totalStake = config.totalEthSupply;
+  for (let i = 0; i < 4; i++) {
+    const aprTimesSqrtStake = getTheoreticalAPR(totalStake, CURRENT_ISSUANCE_CURVE, config) * Math.sqrt(totalStake);
+    totalStake = Math.pow(aprTimesSqrtStake / targetAPR, 2);
+  }
+  return totalStake;
 }
 
 /**
@@ -158,30 +153,71 @@ export interface ProtocolState {
   entryQueueLength: number;
   exitQueueLength: number;
   networkParticipation: number;
+  totalSupply?: number; // Defaults to the config's starting supply
 }
 
 /**
  * Calculate all derived metrics from protocol state
  */
-export function deriveMetrics(state: ProtocolState) {
-  const stakeRatio = getStakeRatio(state.totalStakedETH);
-  const theoreticalAPR = getTheoreticalAPR(state.totalStakedETH);
-  const realisticAPR = getRealisticAPR(state.totalStakedETH, state.networkParticipation);
-  const churnLimit = getChurnLimit(state.activeValidators);
+export function deriveMetrics(
+  state: ProtocolState,
+  fork?: Fork,
+  config: ChainConfig = MAINNET_CONFIG
+) {
+  const validatorBalanceETH = config.maxEffectiveBalance / 1e9;
+  const stakeRatio = getStakeRatio(
+    state.totalStakedETH,
+    state.totalSupply ?? config.totalEthSupply
+  );
+  const theoreticalAPR = getTheoreticalAPR(state.totalStakedETH, CURRENT_ISSUANCE_CURVE, config);
+  const realisticAPR = getRealisticAPR(
+    state.totalStakedETH,
+    state.networkParticipation,
+    undefined,
+    undefined,
+    config
+  );
+  const penaltyAPR = getMissedAttestationPenaltyAPR(
+    state.totalStakedETH,
+    state.networkParticipation,
+    config
+  );
+  const churn: ChurnLimits = getChurnLimits(state.totalStakedETH, fork, config);
   const entryQueueDays = epochsToDays(
-    getActivationQueueWaitTime(state.entryQueueLength, state.activeValidators)
+    getActivationQueueWaitTime(
+      state.entryQueueLength * validatorBalanceETH,
+      state.totalStakedETH,
+      fork,
+      config
+    ),
+    config
   );
   const exitQueueDays = epochsToDays(
-    getExitQueueWaitTime(state.exitQueueLength, state.activeValidators)
+    getExitQueueWaitTime(
+      state.exitQueueLength * validatorBalanceETH,
+      state.totalStakedETH,
+      fork,
+      config
+    ),
+    config
+  );
+  const sweep = getWithdrawalSweep(
+    estimateBalanceDistribution(state.activeValidators, state.totalStakedETH, undefined, config),
+    0,
+    config
   );
 
   return {
     stakeRatio,
     theoreticalAPR,
     realisticAPR,
-    churnLimit,
+    penaltyAPR,
+    churn,
     entryQueueDays,
     exitQueueDays,
-    validatorsPerDay: churnLimit * (24 * 60 * 60 / SECONDS_PER_EPOCH),
+    sweep,
+    timeToLiquidity: getTimeToLiquidity(exitQueueDays, sweep, false, config),
+    // Equivalent 32 ETH validators activated per day at the current churn
+    validatorsPerDay: (churn.activation * getEpochsPerDay(config)) / validatorBalanceETH,
   };
 }
@@ -0,0 +1,65 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Small deterministic generators so Monte Carlo runs are reproducible:
+ * the same seed always produces the same paths.
+ */
+
+/**
+ * Uniform generator on [0, 1)
+ */
+export type Rng = () => number;
+
+/**
+ * Create a seeded uniform generator (mulberry32)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+export function sampleNormal(rng: Rng): number {
+  const u = Math.max(rng(), Number.MIN_VALUE);
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Index drawn in proportion to the given weights
+ */
+export function sampleCategorical(rng: Rng, weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let draw = rng() * total;
+  for (let i = 0; i < weights.length; i++) {
+    draw -= weights[i];
+    if (draw < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * Poisson draw; uses a normal approximation for large means
+ */
+export function samplePoisson(rng: Rng, lambda: number): number {
+  if (lambda <= 0) return 0;
+  if (lambda > 30) {
+    return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * sampleNormal(rng)));
+  }
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = rng();
+  while (product > limit) {
+    count++;
+    product *= rng();
+  }
+  return count;
+}
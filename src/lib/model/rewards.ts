@@ -0,0 +1,155 @@
+/**
+ * Consensus Reward Engine
+ *
+ * Decomposes consensus layer rewards using the Altair+ weights:
+ * timely source/target/head attestations, sync committee participation
+ * and the proposer's share of both. All rewards are expressed per ETH
+ * of effective balance so they hold for any validator size.
+ */
+
+import {
+  SYNC_REWARD_WEIGHT,
+  WEIGHT_DENOMINATOR,
+  TIMELY_SOURCE_WEIGHT,
+  TIMELY_TARGET_WEIGHT,
+  TIMELY_HEAD_WEIGHT,
+  PROPOSER_WEIGHT,
+} from './constants';
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerYear } from './config';
+
+/**
+ * Share of validators performing each duty (0-1)
+ */
+export interface ParticipationRates {
+  source: number;
+  target: number;
+  head: number;
+  syncCommittee: number;
+}
+
+/**
+ * Consensus APR split by reward component (percentages)
+ */
+export interface ConsensusRewardBreakdown {
+  source: number;
+  target: number;
+  head: number;
+  syncCommittee: number;
+  proposer: number;
+  total: number;
+}
+
+/**
+ * Expand a single participation rate into per-duty rates
+ */
+export function toParticipationRates(
+  participation: number | ParticipationRates
+): ParticipationRates {
+  if (typeof participation !== 'number') return participation;
+  return {
+    source: participation,
+    target: participation,
+    head: participation,
+    syncCommittee: participation,
+  };
+}
+
+/**
+ * Base reward per effective balance increment per epoch (ETH)
+ * Formula: EFFECTIVE_BALANCE_INCREMENT * BASE_REWARD_FACTOR // integer_squareroot(total_active_balance)
+ */
+export function getBaseRewardPerIncrement(
+  totalActiveBalanceETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  if (totalActiveBalanceETH <= 0) return 0;
+  const totalActiveBalanceGwei = totalActiveBalanceETH * 1e9;
+  const rewardGwei = Math.floor(
+    (config.effectiveBalanceIncrement * config.baseRewardFactor) /
+    Math.floor(Math.sqrt(totalActiveBalanceGwei))
+  );
+  return rewardGwei / 1e9;
+}
+
+/**
+ * Reward paid to each participating sync committee member per slot (ETH)
+ */
+export function getSyncCommitteeParticipantReward(
+  totalActiveBalanceETH: number,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const totalIncrements = (totalActiveBalanceETH * 1e9) / config.effectiveBalanceIncrement;
+  const totalBaseRewards =
+    getBaseRewardPerIncrement(totalActiveBalanceETH, config) * totalIncrements;
+  const maxParticipantRewards =
+    (totalBaseRewards * SYNC_REWARD_WEIGHT) / WEIGHT_DENOMINATOR / config.slotsPerEpoch;
+  return maxParticipantRewards / config.syncCommitteeSize;
+}
+
+/**
+ * Calculate annualized consensus rewards per component
+ *
+ * Flag rewards scale twice with participation: only participating
+ * validators are paid, and the payout is scaled by the participating
+ * share of stake. The proposer earns PROPOSER_WEIGHT / (WEIGHT_DENOMINATOR -
+ * PROPOSER_WEIGHT) of every attestation and sync reward it includes.
+ */
+export function getConsensusRewards(
+  totalActiveBalanceETH: number,
+  participation: number | ParticipationRates = 1,
+  config: ChainConfig = MAINNET_CONFIG
+): ConsensusRewardBreakdown {
+  if (totalActiveBalanceETH <= 0) {
+    return { source: 0, target: 0, head: 0, syncCommittee: 0, proposer: 0, total: 0 };
+  }
+
+  const rates = toParticipationRates(participation);
+  const baseReward = getBaseRewardPerIncrement(totalActiveBalanceETH, config);
+  const incrementETH = config.effectiveBalanceIncrement / 1e9;
+
+  // Expected per-ETH reward per epoch for each attestation flag
+  const flagReward = (weight: number, rate: number) =>
+    (baseReward * weight * rate * rate) / WEIGHT_DENOMINATOR / incrementETH;
+
+  const source = flagReward(TIMELY_SOURCE_WEIGHT, rates.source);
+  const target = flagReward(TIMELY_TARGET_WEIGHT, rates.target);
+  const head = flagReward(TIMELY_HEAD_WEIGHT, rates.head);
+
+  // Sync committee pool spread over all stake (selection is balance-weighted)
+  const syncPoolPerEpoch =
+    getSyncCommitteeParticipantReward(totalActiveBalanceETH, config) *
+    config.syncCommitteeSize *
+    config.slotsPerEpoch;
+  const syncCommittee = (syncPoolPerEpoch * rates.syncCommittee) / totalActiveBalanceETH;
+
+  // Proposer share of included attestation and sync rewards
+  const proposerRatio = PROPOSER_WEIGHT / (WEIGHT_DENOMINATOR - PROPOSER_WEIGHT);
+  const includedAttestations =
+    (baseReward *
+      (TIMELY_SOURCE_WEIGHT * rates.source +
+        TIMELY_TARGET_WEIGHT * rates.target +
+        TIMELY_HEAD_WEIGHT * rates.head)) /
+    WEIGHT_DENOMINATOR /
+    incrementETH;
+  const proposer = (includedAttestations + syncCommittee) * proposerRatio;
+
+  const toAPR = (perEpoch: number) => perEpoch * getEpochsPerYear(config) * 100;
+
+  const breakdown = {
+    source: toAPR(source),
+    target: toAPR(target),
+    head: toAPR(head),
+    syncCommittee: toAPR(syncCommittee),
+    proposer: toAPR(proposer),
+  };
+
+  return {
+    ...breakdown,
+    total:
+      breakdown.source +
+      breakdown.target +
+      breakdown.head +
+      breakdown.syncCommittee +
+      breakdown.proposer,
+  };
+}
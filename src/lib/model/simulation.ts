@@ -0,0 +1,217 @@
+/**
+ * Execution Yield Path Simulation
+ *
+ * Monte Carlo engine for execution yield. Each path draws a regime
+ * sequence from the transition matrix and moves latent gas price and MEV
+ * towards the active regime's targets at their own mean-reversion speeds,
+ * with day-to-day log-normal noise on each. Priority fees follow the
+ * sampled gas price. Percentiles across paths give the uncertainty band at
+ * every horizon.
+ */
+
+import { quantileSorted } from 'simple-statistics';
+import { type ChainConfig, MAINNET_CONFIG } from './config';
+import {
+  type ExecutionSnapshot,
+  type FeeRegime,
+  type RegimeParameters,
+  type RegimeProbabilities,
+  DEFAULT_REGIME_PARAMETERS,
+  FEE_REGIMES,
+  getPriorityFeeYield,
+} from './execution';
+import { createRng, sampleCategorical, sampleNormal } from './random';
+
+/**
+ * Percentiles of a simulated quantity
+ */
+export interface PercentileBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Simulated execution APR distribution at one horizon
+ */
+export interface ExecutionAPRBand extends PercentileBand {
+  day: number; // Days ahead
+  mean: number;
+  regimeProbabilities: RegimeProbabilities; // Share of paths in each regime
+}
+
+/**
+ * Sampled regime indices (into FEE_REGIMES) and daily execution yields
+ */
+export interface ExecutionYieldPaths {
+  regimes: Uint8Array[];
+  dailyYield: Float64Array[];
+}
+
+/**
+ * Path sampling settings
+ */
+export interface PathSimulationOptions {
+  paths?: number;
+  seed?: number;
+}
+
+/**
+ * Seed used when none is given, so default runs are reproducible
+ */
+export const DEFAULT_SIMULATION_SEED = 42;
+
+const DEFAULT_PATH_COUNT = 2000;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * p5/p25/p50/p75/p95 of a set of values
+ */
+export function getPercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: quantileSorted(sorted, 0.05),
+    p25: quantileSorted(sorted, 0.25),
+    p50: quantileSorted(sorted, 0.5),
+    p75: quantileSorted(sorted, 0.75),
+    p95: quantileSorted(sorted, 0.95),
+  };
+}
+
+/**
+ * Scale every percentile of a band by a constant
+ */
+export function scalePercentileBand(band: PercentileBand, factor: number): PercentileBand {
+  return {
+    p5: band.p5 * factor,
+    p25: band.p25 * factor,
+    p50: band.p50 * factor,
+    p75: band.p75 * factor,
+    p95: band.p95 * factor,
+  };
+}
+
+/**
+ * Sample regime and daily execution yield paths
+ * Yields are ETH/day per 32 ETH at the snapshot's stake level, indexed
+ * by day (0 = first forecast day) and then path
+ */
+export function sampleExecutionYieldPaths(
+  snapshot: ExecutionSnapshot,
+  currentRegime: FeeRegime | RegimeProbabilities,
+  horizonDays: number,
+  params: RegimeParameters = DEFAULT_REGIME_PARAMETERS,
+  options: PathSimulationOptions = {}
+): ExecutionYieldPaths {
+  const pathCount = options.paths ?? DEFAULT_PATH_COUNT;
+  if (pathCount <= 0) {
+    throw new Error('Path count must be positive');
+  }
+
+  const rng = createRng(options.seed ?? DEFAULT_SIMULATION_SEED);
+
+  const start = typeof currentRegime === 'string'
+    ? FEE_REGIMES.map((regime) => (regime === currentRegime ? 1 : 0))
+    : FEE_REGIMES.map((regime) => currentRegime[regime]);
+  const transitions = FEE_REGIMES.map((regime) => {
+    const row = params.transitionMatrix[regime];
+    return [row.toCalm, row.toElevated, row.toHot];
+  });
+  const { components } = params;
+  const gasTargets = FEE_REGIMES.map((regime) => components.gasPrice[regime].target);
+  const gasDecay = FEE_REGIMES.map((regime) =>
+    Math.pow(0.5, 1 / components.gasPrice[regime].halfLife));
+  const mevTargets = FEE_REGIMES.map((regime) => components.mev[regime].target);
+  const mevDecay = FEE_REGIMES.map((regime) =>
+    Math.pow(0.5, 1 / components.mev[regime].halfLife));
+  const logNormal = (sigma: number) =>
+    Math.exp(sigma * sampleNormal(rng) - (sigma * sigma) / 2);
+
+  // Observed fees relative to the gas-implied level, fading as gas reverts
+  const impliedFee = getPriorityFeeYield(snapshot.gasPrice, components);
+  const feeBasis = impliedFee > 0 ? snapshot.priorityFeeYield / impliedFee : 1;
+
+  let regimes = new Uint8Array(pathCount);
+  const gas = new Float64Array(pathCount).fill(snapshot.gasPrice);
+  const mev = new Float64Array(pathCount).fill(snapshot.mevYield);
+  const basisGap = new Float64Array(pathCount).fill(feeBasis - 1);
+  for (let p = 0; p < pathCount; p++) {
+    regimes[p] = sampleCategorical(rng, start);
+  }
+
+  const paths: ExecutionYieldPaths = { regimes: [], dailyYield: [] };
+
+  for (let day = 1; day <= horizonDays; day++) {
+    const nextRegimes = new Uint8Array(pathCount);
+    const dailyYield = new Float64Array(pathCount);
+
+    for (let p = 0; p < pathCount; p++) {
+      const regime = sampleCategorical(rng, transitions[regimes[p]]);
+      nextRegimes[p] = regime;
+
+      gas[p] = gasTargets[regime] + (gas[p] - gasTargets[regime]) * gasDecay[regime];
+      mev[p] = mevTargets[regime] + (mev[p] - mevTargets[regime]) * mevDecay[regime];
+      basisGap[p] *= gasDecay[regime];
+
+      const observedGas = gas[p] * logNormal(components.gasPriceLogStd);
+      dailyYield[p] =
+        getPriorityFeeYield(observedGas, components) * (1 + basisGap[p]) +
+        mev[p] * logNormal(components.mevLogStd);
+    }
+
+    regimes = nextRegimes;
+    paths.regimes.push(nextRegimes);
+    paths.dailyYield.push(dailyYield);
+  }
+
+  return paths;
+}
+
+/**
+ * Execution APR band on one day of sampled paths (0 = first forecast
+ * day), as APR at the snapshot's stake level
+ */
+export function getExecutionAPRBand(
+  paths: ExecutionYieldPaths,
+  dayIndex: number,
+  config: ChainConfig = MAINNET_CONFIG
+): ExecutionAPRBand {
+  const stakeUnitETH = config.minActivationBalance / 1e9;
+  const apr = Array.from(
+    paths.dailyYield[dayIndex],
+    (dailyYield) => (dailyYield * DAYS_PER_YEAR / stakeUnitETH) * 100
+  );
+  const regimeCounts = [0, 0, 0];
+  for (const regime of paths.regimes[dayIndex]) regimeCounts[regime]++;
+  const pathCount = apr.length;
+
+  return {
+    day: dayIndex + 1,
+    mean: apr.reduce((sum, v) => sum + v, 0) / pathCount,
+    ...getPercentileBand(apr),
+    regimeProbabilities: {
+      calm: regimeCounts[0] / pathCount,
+      elevated: regimeCounts[1] / pathCount,
+      hot: regimeCounts[2] / pathCount,
+    },
+  };
+}
+
+/**
+ * Simulate execution APR paths and summarise them day by day
+ * Returns one band per day from 1 to horizonDays, as APR at the
+ * snapshot's stake level
+ */
+export function simulateExecutionYieldPaths(
+  snapshot: ExecutionSnapshot,
+  currentRegime: FeeRegime | RegimeProbabilities,
+  horizonDays: number,
+  params: RegimeParameters = DEFAULT_REGIME_PARAMETERS,
+  options: PathSimulationOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): ExecutionAPRBand[] {
+  const paths = sampleExecutionYieldPaths(snapshot, currentRegime, horizonDays, params, options);
+  return paths.dailyYield.map((_, i) => getExecutionAPRBand(paths, i, config));
+}
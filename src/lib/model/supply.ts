@@ -0,0 +1,76 @@
+/**
+ * ETH Supply Model
+ *
+ * Projects total ETH supply day by day as consensus issuance minus
+ * the EIP-1559 base-fee burn. Burn follows the execution fee regime,
+ * since base fees and priority fees both track block space demand.
+ */
+
+import type { FeeRegime } from './execution';
+
+/**
+ * Supply after one forecast step
+ */
+export interface SupplyStep {
+  totalSupply: number;
+  issuanceETH: number; // New ETH issued during the step
+  burnETH: number; // Base fees burned during the step
+  netInflation: number; // Annualized % change in supply
+}
+
+const DAYS_PER_YEAR = 365.25;
+
+// Daily base-fee burn by regime in ETH (post-Dencun calibration)
+const BURN_BY_REGIME: Record<FeeRegime, number> = {
+  calm: 150,
+  elevated: 600,
+  hot: 2500,
+};
+
+/**
+ * Daily consensus issuance in ETH
+ * Every ETH of consensus APR paid to stakers is newly minted
+ */
+export function getDailyIssuance(totalStakedETH: number, consensusAPR: number): number {
+  return (totalStakedETH * consensusAPR) / 100 / DAYS_PER_YEAR;
+}
+
+/**
+ * Daily base-fee burn in ETH for a fee regime
+ */
+export function getDailyBurn(regime: FeeRegime, burnMultiplier: number = 1): number {
+  return BURN_BY_REGIME[regime] * burnMultiplier;
+}
+
+/**
+ * Annualized net inflation (%) from daily issuance and burn
+ */
+export function getNetInflation(
+  issuanceETH: number,
+  burnETH: number,
+  totalSupply: number
+): number {
+  if (totalSupply <= 0) return 0;
+  return ((issuanceETH - burnETH) * DAYS_PER_YEAR / totalSupply) * 100;
+}
+
+/**
+ * Advance total supply by one day
+ */
+export function stepSupply(
+  totalSupply: number,
+  totalStakedETH: number,
+  consensusAPR: number,
+  regime: FeeRegime,
+  burnMultiplier: number = 1
+): SupplyStep {
+  const issuanceETH = getDailyIssuance(totalStakedETH, consensusAPR);
+  const burnETH = getDailyBurn(regime, burnMultiplier);
+
+  return {
+    totalSupply: totalSupply + issuanceETH - burnETH,
+    issuanceETH,
+    burnETH,
+    netInflation: getNetInflation(issuanceETH, burnETH, totalSupply),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Operator Reward Variance
+ *
+ * Network averages hide how lumpy rewards are for a small operator.
+ * Attestation rewards accrue smoothly, but block proposals are Poisson
+ * events, sync committee seats are rare lottery wins, and execution
+ * revenue per block (especially MEV) is heavy-tailed. This module samples
+ * those events for an operator of a given size over a horizon and reports
+ * the distribution of realized rewards and APR.
+ */
+
+import { mean, quantileSorted } from 'simple-statistics';
+import {
+  type ChainConfig,
+  MAINNET_CONFIG,
+  getEpochsPerDay,
+} from './config';
+import { type ExecutionSnapshot, getExecutionSnapshot } from './execution';
+import { createRng, samplePoisson, sampleNormal, type Rng } from './random';
+import { getConsensusRewards, getSyncCommitteeParticipantReward } from './rewards';
+import {
+  type PercentileBand,
+  DEFAULT_SIMULATION_SEED,
+  getPercentileBand,
+} from './simulation';
+
+/**
+ * Operator size, as a validator count or a total stake
+ */
+export interface OperatorSize {
+  validators?: number; // Validators at minActivationBalance
+  stakeETH?: number; // Takes precedence over validators
+}
+
+/**
+ * Inputs for the reward variance simulation
+ */
+export interface OperatorVarianceOptions {
+  participation?: number; // Network participation rate (0-1)
+  execution?: ExecutionSnapshot; // Network execution revenue; calm defaults if absent
+  paths?: number;
+  seed?: number;
+}
+
+/**
+ * Distribution of a realized quantity across paths
+ */
+export interface RewardPercentiles extends PercentileBand {
+  mean: number;
+  p10: number;
+  p90: number;
+}
+
+/**
+ * Realized reward distribution for an operator over a horizon
+ */
+export interface OperatorRewardDistribution {
+  stakeETH: number;
+  horizonDays: number;
+  expectedProposals: number;
+  probabilityNoProposal: number;
+  expectedSyncCommitteeSeats: number;
+  probabilityNoSyncCommittee: number;
+  proposals: RewardPercentiles;
+  attestationRewardsETH: number; // Accrues smoothly, so one value
+  consensusRewardsETH: RewardPercentiles; // Attestations + proposals + sync committee
+  executionRewardsETH: RewardPercentiles; // Priority fees + MEV from proposed blocks
+  totalRewardsETH: RewardPercentiles;
+  apr: RewardPercentiles; // Annualized total reward (%)
+}
+
+const DEFAULT_PATH_COUNT = 2000;
+const DEFAULT_PARTICIPATION = 0.995;
+const DAYS_PER_YEAR = 365;
+
+// Log-normal spread of per-block revenue around its mean
+const PRIORITY_FEE_BLOCK_LOG_STD = 0.5;
+const MEV_BLOCK_LOG_STD = 1.5; // A few blocks carry most of the MEV
+
+// Above this many blocks a path's revenue is drawn from its normal approximation
+const MAX_EXACT_BLOCKS = 100;
+
+/**
+ * Sum of `count` mean-preserving log-normal draws with the given mean
+ */
+function sampleBlockRevenue(rng: Rng, count: number, meanPerBlock: number, sigma: number): number {
+  if (count === 0 || meanPerBlock <= 0) return 0;
+
+  if (count > MAX_EXACT_BLOCKS) {
+    const std = meanPerBlock * Math.sqrt(count * (Math.exp(sigma * sigma) - 1));
+    return Math.max(0, count * meanPerBlock + std * sampleNormal(rng));
+  }
+
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += meanPerBlock * Math.exp(sigma * sampleNormal(rng) - (sigma * sigma) / 2);
+  }
+  return total;
+}
+
+function getRewardPercentiles(values: number[]): RewardPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: mean(values),
+    ...getPercentileBand(sorted),
+    p10: quantileSorted(sorted, 0.1),
+    p90: quantileSorted(sorted, 0.9),
+  };
+}
+
+/**
+ * Stake in ETH for an operator size
+ */
+export function getOperatorStakeETH(
+  operator: OperatorSize,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  if (operator.stakeETH !== undefined) return operator.stakeETH;
+  if (operator.validators !== undefined) {
+    return operator.validators * (config.minActivationBalance / 1e9);
+  }
+  throw new Error('Operator size needs a validator count or a stake');
+}
+
+/**
+ * Sample realized consensus and execution rewards for an operator
+ *
+ * Proposer and sync committee selection are weighted by effective balance,
+ * so an operator's expected proposals and seats follow its share of total
+ * stake however it is split across validators.
+ */
+export function getOperatorRewardDistribution(
+  operator: OperatorSize,
+  horizonDays: number,
+  totalStakedETH: number,
+  options: OperatorVarianceOptions = {},
+  config: ChainConfig = MAINNET_CONFIG
+): OperatorRewardDistribution {
+  const stakeETH = getOperatorStakeETH(operator, config);
+  if (stakeETH <= 0 || horizonDays <= 0) {
+    throw new Error('Operator stake and horizon must be positive');
+  }
+  if (stakeETH > totalStakedETH) {
+    throw new Error('Operator stake cannot exceed total stake');
+  }
+
+  const pathCount = options.paths ?? DEFAULT_PATH_COUNT;
+  if (pathCount <= 0) {
+    throw new Error('Path count must be positive');
+  }
+
+  const rng = createRng(options.seed ?? DEFAULT_SIMULATION_SEED);
+  const participation = options.participation ?? DEFAULT_PARTICIPATION;
+  const execution = options.execution ?? getExecutionSnapshot([], totalStakedETH, config);
+  const stakeShare = stakeETH / totalStakedETH;
+  const slotsPerDay = getEpochsPerDay(config) * config.slotsPerEpoch;
+  const slotsPerYear = slotsPerDay * DAYS_PER_YEAR;
+  const years = horizonDays / DAYS_PER_YEAR;
+
+  // Attestations pay out every epoch, so they are taken at their expectation
+  const consensus = getConsensusRewards(totalStakedETH, participation, config);
+  const attestationRewardsETH =
+    ((consensus.source + consensus.target + consensus.head) / 100) * stakeETH * years;
+
+  // Block proposals: one proposer per slot, chosen by balance
+  const expectedProposals = slotsPerDay * horizonDays * stakeShare;
+  const proposerRewardPerBlock = (consensus.proposer / 100) * totalStakedETH / slotsPerYear;
+  const stakeUnits = execution.totalStakedETH / (config.minActivationBalance / 1e9);
+  const feePerBlock = (execution.priorityFeeYield * stakeUnits) / slotsPerDay;
+  const mevPerBlock = (execution.mevYield * stakeUnits) / slotsPerDay;
+
+  // Sync committee: each period fills its seats by balance
+  const periodDays = config.epochsPerSyncCommitteePeriod / getEpochsPerDay(config);
+  const expectedSyncCommitteeSeats =
+    (horizonDays / periodDays) * config.syncCommitteeSize * stakeShare;
+  const rewardPerSeat =
+    getSyncCommitteeParticipantReward(totalStakedETH, config) *
+    config.slotsPerEpoch *
+    config.epochsPerSyncCommitteePeriod *
+    participation;
+
+  const proposals = new Array<number>(pathCount);
+  const consensusRewards = new Array<number>(pathCount);
+  const executionRewards = new Array<number>(pathCount);
+  const totalRewards = new Array<number>(pathCount);
+  const apr = new Array<number>(pathCount);
+
+  for (let p = 0; p < pathCount; p++) {
+    const blocks = samplePoisson(rng, expectedProposals);
+    const seats = samplePoisson(rng, expectedSyncCommitteeSeats);
+
+    proposals[p] = blocks;
+    consensusRewards[p] =
+      attestationRewardsETH + blocks * proposerRewardPerBlock + seats * rewardPerSeat;
+    executionRewards[p] =
+      sampleBlockRevenue(rng, blocks, feePerBlock, PRIORITY_FEE_BLOCK_LOG_STD) +
+      sampleBlockRevenue(rng, blocks, mevPerBlock, MEV_BLOCK_LOG_STD);
+    totalRewards[p] = consensusRewards[p] + executionRewards[p];
+    apr[p] = (totalRewards[p] / stakeETH / years) * 100;
+  }
+
+  return {
+    stakeETH,
+    horizonDays,
+    expectedProposals,
+    probabilityNoProposal: Math.exp(-expectedProposals),
+    expectedSyncCommitteeSeats,
+    probabilityNoSyncCommittee: Math.exp(-expectedSyncCommitteeSeats),
+    proposals: getRewardPercentiles(proposals),
+    attestationRewardsETH,
+    consensusRewardsETH: getRewardPercentiles(consensusRewards),
+    executionRewardsETH: getRewardPercentiles(executionRewards),
+    totalRewardsETH: getRewardPercentiles(totalRewards),
+    apr: getRewardPercentiles(apr),
+  };
+}
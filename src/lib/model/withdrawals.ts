@@ -0,0 +1,186 @@
+/**
+ * Withdrawal Pipeline Model
+ *
+ * Follows exited stake until it reaches the execution layer. An exited
+ * validator first waits out the withdrawability delay, then is paid when
+ * the withdrawal sweep next reaches its index. Each block pays at most
+ * MAX_WITHDRAWALS_PER_PAYLOAD validators, shared with every partial (skim)
+ * withdrawal, so the sweep cycle stretches as more validators have a
+ * balance to withdraw.
+ */
+
+import { type ChainConfig, MAINNET_CONFIG, getEpochsPerDay } from './config';
+import {
+  type EffectiveBalanceDistribution,
+  getMaxEffectiveBalance,
+  getValidatorCount,
+} from './balances';
+
+/**
+ * Withdrawal sweep throughput
+ */
+export interface WithdrawalSweep {
+  validatorCount: number; // Validators the sweep cycles through
+  eligibleShare: number; // Share with a withdrawal due when swept (0-1)
+  validatorsPerSlot: number; // How far the sweep advances per block
+  withdrawalsPerDay: number;
+  cycleDays: number; // Days for the sweep to visit every validator once
+}
+
+/**
+ * End-to-end time from requesting an exit to holding liquid ETH
+ */
+export interface TimeToLiquidity {
+  exitQueueDays: number;
+  withdrawabilityDelayDays: number;
+  sweepDays: number; // Expected wait for the sweep (half a cycle)
+  totalDays: number;
+  worstCaseDays: number; // Sweep has just passed the validator
+}
+
+/**
+ * Cohort of exited stake waiting to be swept
+ */
+export interface PendingWithdrawal {
+  amountETH: number; // Stake that exited with this cohort
+  remainingETH: number; // Not yet paid out
+  withdrawableDay: number; // Forecast day the cohort becomes withdrawable
+}
+
+/**
+ * Days between exit and withdrawability
+ * Slashed validators stay locked for a full slashings vector so the
+ * correlation penalty can still be applied
+ */
+export function getWithdrawabilityDelayDays(
+  slashed: boolean = false,
+  config: ChainConfig = MAINNET_CONFIG
+): number {
+  const delayEpochs = slashed
+    ? Math.max(config.minValidatorWithdrawabilityDelay, config.epochsPerSlashingsVector)
+    : config.minValidatorWithdrawabilityDelay;
+  return delayEpochs / getEpochsPerDay(config);
+}
+
+/**
+ * Calculate sweep throughput for a balance distribution
+ *
+ * Validators at their maximum effective balance keep accruing rewards, so
+ * they always have a partial withdrawal due when the sweep arrives; 0x02
+ * validators below 2048 ETH compound instead and are passed over. The sweep
+ * advances until it fills a payload or hits its per-block scan limit.
+ */
+export function getWithdrawalSweep(
+  distribution: EffectiveBalanceDistribution,
+  withdrawableValidators: number = 0,
+  config: ChainConfig = MAINNET_CONFIG
+): WithdrawalSweep {
+  const partiallyWithdrawable = distribution
+    .filter((bucket) =>
+      bucket.effectiveBalance >= getMaxEffectiveBalance(bucket.credentials, config))
+    .reduce((sum, bucket) => sum + bucket.count, 0);
+
+  const validatorCount = getValidatorCount(distribution) + withdrawableValidators;
+  const eligibleShare = validatorCount > 0
+    ? (partiallyWithdrawable + withdrawableValidators) / validatorCount
+    : 0;
+
+  const validatorsPerSlot = eligibleShare > 0
+    ? Math.min(
+      config.maxWithdrawalsPerPayload / eligibleShare,
+      config.maxValidatorsPerWithdrawalsSweep
+    )
+    : config.maxValidatorsPerWithdrawalsSweep;
+  const slotsPerDay = getEpochsPerDay(config) * config.slotsPerEpoch;
+
+  return {
+    validatorCount,
+    eligibleShare,
+    validatorsPerSlot,
+    withdrawalsPerDay: validatorsPerSlot * eligibleShare * slotsPerDay,
+    cycleDays: validatorCount / (validatorsPerSlot * slotsPerDay),
+  };
+}
+
+/**
+ * Time to liquidity for a validator joining the exit queue today
+ */
+export function getTimeToLiquidity(
+  exitQueueDays: number,
+  sweep: WithdrawalSweep,
+  slashed: boolean = false,
+  config: ChainConfig = MAINNET_CONFIG
+): TimeToLiquidity {
+  const withdrawabilityDelayDays = getWithdrawabilityDelayDays(slashed, config);
+  const sweepDays = sweep.cycleDays / 2;
+
+  return {
+    exitQueueDays,
+    withdrawabilityDelayDays,
+    sweepDays,
+    totalDays: exitQueueDays + withdrawabilityDelayDays + sweepDays,
+    worstCaseDays: exitQueueDays + withdrawabilityDelayDays + sweep.cycleDays,
+  };
+}
+
+/**
+ * Add stake that exited on a given forecast day to the pipeline
+ */
+export function queueWithdrawal(
+  pending: PendingWithdrawal[],
+  amountETH: number,
+  exitDay: number,
+  slashed: boolean = false,
+  config: ChainConfig = MAINNET_CONFIG
+): PendingWithdrawal[] {
+  if (amountETH <= 0) return pending;
+  return [
+    ...pending,
+    {
+      amountETH,
+      remainingETH: amountETH,
+      withdrawableDay: exitDay + getWithdrawabilityDelayDays(slashed, config),
+    },
+  ];
+}
+
+/**
+ * Total exited stake not yet paid out (ETH)
+ */
+export function getPendingWithdrawalETH(pending: PendingWithdrawal[]): number {
+  return pending.reduce((sum, cohort) => sum + cohort.remainingETH, 0);
+}
+
+/**
+ * Withdrawable stake not yet paid out (ETH)
+ */
+export function getWithdrawableETH(pending: PendingWithdrawal[], day: number): number {
+  return pending
+    .filter((cohort) => cohort.withdrawableDay <= day)
+    .reduce((sum, cohort) => sum + cohort.remainingETH, 0);
+}
+
+/**
+ * Advance the pipeline by one day
+ * A withdrawable cohort's validators are spread across the registry, so the
+ * sweep pays it out evenly over one cycle
+ */
+export function processWithdrawals(
+  pending: PendingWithdrawal[],
+  day: number,
+  sweep: WithdrawalSweep
+): { pending: PendingWithdrawal[]; withdrawnETH: number } {
+  const dailyShare = sweep.cycleDays > 0 ? Math.min(1, 1 / sweep.cycleDays) : 1;
+  let withdrawnETH = 0;
+
+  const next = pending
+    .map((cohort) => {
+      if (cohort.withdrawableDay > day) return cohort;
+      const paid = Math.min(cohort.remainingETH, cohort.amountETH * dailyShare);
+      withdrawnETH += paid;
+      return { ...cohort, remainingETH: cohort.remainingETH - paid };
+    })
+    .filter((cohort) => cohort.remainingETH > 1e-9);
+
+  return { pending: next, withdrawnETH };
+}